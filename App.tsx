@@ -1,17 +1,49 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import SqlEditor from './components/SqlEditor';
 import ResultsTable from './components/ResultsTable';
 import SettingsModal from './components/SettingsModal';
 import SavedQueriesModal from './components/SavedQueriesModal';
-import { executeSoapQuery } from './services/soapService';
+import BindVariablesModal from './components/BindVariablesModal';
+import ScriptResultsBar from './components/ScriptResultsBar';
+import BatchRunModal from './components/BatchRunModal';
+import ExtractionJobsModal, { NewExtractionRequest } from './components/ExtractionJobsModal';
+import SchemaBrowser from './components/SchemaBrowser';
+import ScheduledRunsModal from './components/ScheduledRunsModal';
+import CatalogBrowser from './components/CatalogBrowser';
+import ReportRunModal from './components/ReportRunModal';
+import AuthPromptModal, { AuthPrompt } from './components/AuthPromptModal';
+import VaultModal from './components/VaultModal';
+import HistoryModal from './components/HistoryModal';
+import WorkspaceMenu from './components/WorkspaceMenu';
+import SnapshotsModal from './components/SnapshotsModal';
+import SnapshotDiffView from './components/SnapshotDiffView';
+import { estimateEncodedSqlLength, MAX_ENCODED_SQL_LENGTH } from './services/soapService';
+import { AuthRequiredError, OracleQueryError, QueryAbortedError } from './services/errors';
 import { generateSqlFromPrompt, explainError } from './services/geminiService';
-import { initDB, getConnections, updateAllConnections, getSavedQueries, saveQuery, deleteSavedQuery } from './services/dbService';
-import { ConnectionConfig, TabView, SqlTab, SavedQuery } from './types';
+import { findBindVariables, splitSqlStatements, hasTopLevelOrderBy } from './services/sqlParser';
+import { executeQuery } from './services/queryService';
+import { inferColumnTypes, loadDisplayFormat, saveDisplayFormat } from './services/formatService';
+import { BatchPlan, runBatchedQuery } from './services/batchService';
+import { runCatalogReport } from './services/catalogService';
+import { hasCredentials, clearTokenCache } from './services/authService';
+import { clearSessions } from './services/otbiService';
+import { unlockVault, lockVault, loadAutoLockMinutes, SECRET_FIELDS, VaultMeta } from './services/vaultService';
+import { describeStatus } from './services/diagnosticsService';
+import { recordExecution } from './services/historyService';
+import { createSnapshot, compareResults } from './services/snapshotService';
+import { toTableName, uniqueTableName, loadResultTable, runLocalQuery } from './services/localQueryService';
+import { createTab, createWorkspace, toStoredTabs, loadStartupWorkspace, saveActiveWorkspaceId, DEFAULT_EDITOR_HEIGHT } from './services/workspaceService';
+import { submitScheduledRun, pollScheduledRun, stopPollingRun, cancelScheduledRun, isRunPending } from './services/scheduleService';
+import { loadExtractionJobs, runExtractionJob, pauseExtractionJob, removeExtractionJob, exportExtractionJob, getExtractionBlocker } from './services/extractionService';
+import { initDB, getConnections, updateAllConnections, getVaultMeta, rekeyVault, getConnectionStatuses, saveConnectionStatus, getSavedQueries, saveQuery, deleteSavedQuery, getScheduledRuns, getScheduledRunResult, deleteScheduledRun, getWorkspace, getWorkspaceSummaries, saveWorkspace, deleteWorkspace, getSnapshots, saveSnapshot, getSnapshotResult, deleteSnapshot, getScratchTables, dropScratchTable } from './services/dbService';
+import { ConnectionConfig, ConnectionStatus, TabView, SqlTab, SavedQuery, BindValue, ScriptStatementResult, DisplayFormat, ExtractionJob, OracleErrorDetail, ScheduledRun, QueryResult, CatalogItem, HistoryItem, Workspace, WorkspaceSummary, ResultSnapshot } from './types';
 import { DEFAULT_SOAP_TEMPLATE, DEFAULT_URL } from './constants';
-import { Settings, Sparkles, Database, ChevronDown, Plus, X, FolderOpen, Save, Loader2 } from 'lucide-react';
+import { Settings, Sparkles, Database, ChevronDown, Plus, X, FolderOpen, Save, Loader2, ListOrdered, Layers, HardDriveDownload, Table2, Clock, Library, Lock, History, Camera } from 'lucide-react';
 
 const ACTIVE_CONN_KEY = 'duckoracle_active_id';
-const DRAFT_QUERY_KEY = 'duckoracle_draft';
+const UNORDERED_PAGES_WARNING = 'Pages were loaded by separate runs of a query without ORDER BY: rows may repeat or be missing across pages.';
+
+type RunMode = 'query' | 'script' | 'batch' | 'schedule';
 
 // Utility for ID gen
 const generateId = () => Math.random().toString(36).substring(2) + Date.now().toString(36);
@@ -22,6 +54,7 @@ const App: React.FC = () => {
 
   // --- Connections State ---
   const [savedConnections, setSavedConnections] = useState<ConnectionConfig[]>([]);
+  const [connectionStatuses, setConnectionStatuses] = useState<Record<string, ConnectionStatus>>({}); // Last connection test per id
   const [activeConnectionId, setActiveConnectionId] = useState<string>('');
   
   // --- Tabs State ---
@@ -29,21 +62,73 @@ const App: React.FC = () => {
     { id: 'tab-1', name: 'Query 1', query: '', rowLimit: 100, result: null, error: null, isLoading: false, view: TabView.TABLE }
   ]);
   const [activeTabId, setActiveTabId] = useState<string>('tab-1');
+
+  // --- Workspace State (the tabs above are the active workspace's, restored on startup) ---
+  const [workspace, setWorkspace] = useState<Pick<Workspace, 'id' | 'name' | 'keepResults'> | null>(null);
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
   
   // --- Layout State (Resizer) ---
-  const [editorHeight, setEditorHeight] = useState(350);
+  const [editorHeight, setEditorHeight] = useState(DEFAULT_EDITOR_HEIGHT);
   const isResizing = useRef(false);
 
+  // Incremented by "Jump to Error" so the editor selects the error position
+  const [errorJumpKey, setErrorJumpKey] = useState(0);
+
+  // --- In-flight Requests (keyed by tab id, used by the Stop button) ---
+  const runControllers = useRef<Record<string, AbortController>>({});
+
   // --- Saved Queries State ---
   const [savedQueries, setSavedQueries] = useState<SavedQuery[]>([]);
   const [isSavedQueriesOpen, setIsSavedQueriesOpen] = useState(false);
 
+  // --- Bind Variables Prompt ---
+  const [bindPrompt, setBindPrompt] = useState<{ 
+      mode: RunMode; 
+      sql: string;
+      batch?: BatchPlan;
+      editorOffset: number | null;
+      variables: string[]; 
+      initialValues: Record<string, BindValue> 
+  } | null>(null);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+
+  // --- Extraction Jobs State ---
+  const [extractionJobs, setExtractionJobs] = useState<ExtractionJob[]>([]);
+  const [isJobsOpen, setIsJobsOpen] = useState(false);
+
+  // --- Scheduled (Async) Runs State ---
+  const [scheduledRuns, setScheduledRuns] = useState<ScheduledRun[]>([]);
+  const [pollingRunIds, setPollingRunIds] = useState<string[]>([]);
+  const [isScheduledOpen, setIsScheduledOpen] = useState(false);
+  const scheduledRunTabs = useRef<Record<string, string>>({}); // Run id -> tab that submitted it
+  const localTableTabs = useRef<Record<string, string>>({}); // Tab id -> local table its result was loaded into
+  const lastSavedWorkspace = useRef(''); // Last state written by the auto-save
+
+  // --- Query History State ---
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0); // Bumped when an execution is logged
+
+  // --- Result Snapshots State ---
+  const [snapshots, setSnapshots] = useState<ResultSnapshot[]>([]);
+  const [isSnapshotsOpen, setIsSnapshotsOpen] = useState(false);
+  const [isDiffHidden, setIsDiffHidden] = useState(false); // Shows the fresh result of a comparison tab instead
+
+  // --- Local SQLite Tables (results loaded for local queries, in memory until reload) ---
+  const [localTables, setLocalTables] = useState<{ name: string; rowCount: number }[]>([]);
+
   // --- UI State ---
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [aiPrompt, setAiPrompt] = useState("");
   const [isAiGenerating, setIsAiGenerating] = useState(false);
   const [aiPanelOpen, setAiPanelOpen] = useState(false);
+  const [isSchemaOpen, setIsSchemaOpen] = useState(false);
+  const [isCatalogOpen, setIsCatalogOpen] = useState(false);
+  const [catalogReport, setCatalogReport] = useState<CatalogItem | null>(null); // Report whose parameter form is open
+  const [authPrompt, setAuthPrompt] = useState<AuthPrompt | null>(null); // Expired or rejected credentials
+  const [vaultMeta, setVaultMeta] = useState<VaultMeta | null>(null); // null until a master passphrase is set
+  const [isVaultLocked, setIsVaultLocked] = useState(true);
   const [isConnDropdownOpen, setIsConnDropdownOpen] = useState(false);
+  const [displayFormat, setDisplayFormat] = useState<DisplayFormat>(loadDisplayFormat);
 
   const activeConfig = savedConnections.find(c => c.id === activeConnectionId) || {
     id: 'temp', name: 'Temporary', url: DEFAULT_URL, username: '', password: '', soapTemplate: DEFAULT_SOAP_TEMPLATE
@@ -55,42 +140,38 @@ const App: React.FC = () => {
   };
   const activeTab = tabs.find(t => t.id === activeTabId) || tabs[0];
 
+  // Functional update for a specific tab (safe for long-running async work)
+  const updateTab = (tabId: string, updater: (tab: SqlTab) => Partial<SqlTab>) => {
+      setTabs(prev => prev.map(t => t.id === tabId ? { ...t, ...updater(t) } : t));
+  };
+
   // --- Init Database & Startup Logic ---
   useEffect(() => {
     const loadData = async () => {
       try {
         await initDB();
         
-        // Load Connections
-        const conns = await getConnections();
-        setSavedConnections(conns);
-
-        let initialConnId = '';
-
-        // Load Active Connection Preference
-        const storedActive = localStorage.getItem(ACTIVE_CONN_KEY);
-        if (storedActive && conns.find(c => c.id === storedActive)) {
-          initialConnId = storedActive;
-        } else if (conns.length > 0) {
-          initialConnId = conns[0].id;
-        }
-
-        if (initialConnId) {
-            setActiveConnectionId(initialConnId);
-        } else {
-            // If no connection is active or exists, open Settings immediately
-            setIsSettingsOpen(true);
-        }
+        // Connections are loaded once the vault is unlocked (see loadConnections)
+        setVaultMeta(await getVaultMeta());
+        setConnectionStatuses(await getConnectionStatuses());
 
         // Load Saved Queries
         const queries = await getSavedQueries();
         setSavedQueries(queries);
 
-        // Load Draft Query (Last autosave)
-        const draft = localStorage.getItem(DRAFT_QUERY_KEY);
-        if (draft) {
-             setTabs(prev => prev.map(t => t.id === 'tab-1' ? { ...t, query: draft } : t));
-        }
+        // Load Extraction Jobs (interrupted jobs come back paused)
+        const jobs = await loadExtractionJobs();
+        setExtractionJobs(jobs);
+
+        // Load Scheduled Runs (polling resumes once the credentials are unlocked)
+        setScheduledRuns(await getScheduledRuns());
+
+        // Load Result Snapshots (metadata only, results are read when opened)
+        setSnapshots(await getSnapshots());
+
+        // Restore the last workspace (tabs, active tab, editor height)
+        applyWorkspace(await loadStartupWorkspace());
+        setWorkspaces(await getWorkspaceSummaries());
         
         setIsDbReady(true);
       } catch (err) {
@@ -101,15 +182,90 @@ const App: React.FC = () => {
     loadData();
   }, []);
 
-  // --- Auto-Save Draft ---
-  useEffect(() => {
-    if (activeTabId === 'tab-1') { // Only auto-save the first tab for simplicity as "Draft"
-        const handler = setTimeout(() => {
-            localStorage.setItem(DRAFT_QUERY_KEY, activeTab.query);
-        }, 1000);
-        return () => clearTimeout(handler);
+  // Decrypted connections, the active connection preference, and polling of pending scheduled runs
+  const loadConnections = async () => {
+    const conns = await getConnections();
+    setSavedConnections(conns);
+
+    let initialConnId = '';
+
+    // Load Active Connection Preference
+    const storedActive = localStorage.getItem(ACTIVE_CONN_KEY);
+    if (storedActive && conns.find(c => c.id === storedActive)) {
+      initialConnId = storedActive;
+    } else if (conns.length > 0) {
+      initialConnId = conns[0].id;
+    }
+
+    if (initialConnId) {
+        setActiveConnectionId(initialConnId);
+    } else {
+        // If no connection is active or exists, open Settings immediately
+        setIsSettingsOpen(true);
     }
-  }, [activeTab.query, activeTabId]);
+
+    // Pending jobs kept running on the server (already polled runs are skipped)
+    const runs = await getScheduledRuns();
+    runs.filter(isRunPending).forEach(run => {
+        const config = conns.find(c => c.id === run.connectionId);
+        if (config) pollRun(run, config);
+    });
+  };
+
+  // --- Master Passphrase Vault ---
+  const handleVaultUnlock = async (passphrase: string) => {
+    if (!vaultMeta || !await unlockVault(passphrase, vaultMeta)) return false;
+    setIsVaultLocked(false);
+    await loadConnections();
+    return true;
+  };
+
+  // First run (existing plaintext secrets get encrypted) or reset of a forgotten passphrase
+  const handleVaultCreate = async (passphrase: string) => {
+    setVaultMeta(await rekeyVault(passphrase));
+    setIsVaultLocked(false);
+    await loadConnections();
+  };
+
+  // Forget the key and the decrypted secrets held in memory
+  const handleLock = () => {
+    lockVault();
+    // Cached bearer tokens and analytics sessions are credentials too
+    clearTokenCache();
+    clearSessions();
+    setIsVaultLocked(true);
+    setIsSettingsOpen(false);
+    setAuthPrompt(null);
+    setSavedConnections(prev => prev.map(c => ({ ...c, ...Object.fromEntries(SECRET_FIELDS.map(field => [field, ''])) })));
+  };
+
+  // --- Auto-Lock after Inactivity ---
+  const lastActivity = useRef(Date.now());
+  useEffect(() => {
+    if (isVaultLocked) return;
+    lastActivity.current = Date.now();
+    const onActivity = () => { lastActivity.current = Date.now(); };
+    const events = ['mousedown', 'keydown', 'mousemove', 'wheel'];
+    events.forEach(e => window.addEventListener(e, onActivity));
+
+    // Re-read every tick so a change in Settings applies without a reload
+    const timer = setInterval(() => {
+      const minutes = loadAutoLockMinutes();
+      if (minutes > 0 && Date.now() - lastActivity.current > minutes * 60 * 1000) handleLock();
+    }, 30 * 1000);
+
+    return () => {
+      events.forEach(e => window.removeEventListener(e, onActivity));
+      clearInterval(timer);
+    };
+  }, [isVaultLocked]);
+
+  // --- Auto-Save Workspace ---
+  useEffect(() => {
+    if (!workspace) return;
+    const handler = setTimeout(persistWorkspace, 1000);
+    return () => clearTimeout(handler);
+  }, [tabs, activeTabId, editorHeight, workspace]);
 
   // --- Resizer Logic ---
   const startResizing = (e: React.MouseEvent) => {
@@ -147,31 +303,106 @@ const App: React.FC = () => {
       await updateAllConnections(newConns);
   };
 
+  // Re-prompt for the token/password when a run fails authentication
+  const promptForCredentials = (err: any) => {
+      if (err instanceof AuthRequiredError) {
+          setAuthPrompt({ connectionId: err.connectionId, field: err.field, message: err.message });
+      }
+  };
+
+  const handleAuthSubmit = async (connection: ConnectionConfig) => {
+      setAuthPrompt(null);
+      await handleSaveConnections(savedConnections.map(c => c.id === connection.id ? connection : c));
+  };
+
+  const handleConnectionTested = async (status: ConnectionStatus) => {
+      setConnectionStatuses(prev => ({ ...prev, [status.connectionId]: status }));
+      await saveConnectionStatus(status);
+  };
+
+  const handleDisplayFormatChange = (format: DisplayFormat) => {
+      setDisplayFormat(format);
+      saveDisplayFormat(format);
+  };
+
   const handleSelectConnection = (id: string) => {
       setActiveConnectionId(id);
       localStorage.setItem(ACTIVE_CONN_KEY, id);
       setIsConnDropdownOpen(false);
   };
 
+  // --- Workspaces ---
+  const applyWorkspace = (ws: Workspace) => {
+      setTabs(ws.tabs);
+      setActiveTabId(ws.tabs.some(t => t.id === ws.activeTabId) ? ws.activeTabId : ws.tabs[0].id);
+      setEditorHeight(ws.editorHeight || DEFAULT_EDITOR_HEIGHT);
+      setWorkspace({ id: ws.id, name: ws.name, keepResults: ws.keepResults });
+      saveActiveWorkspaceId(ws.id);
+  };
+
+  // Writes the open tabs to the active workspace (debounced by the auto-save effect).
+  // Skipped when nothing stored changed, e.g. a run only toggling loading state.
+  const persistWorkspace = async () => {
+      if (!workspace) return;
+      const state = { ...workspace, tabs: toStoredTabs(tabs, workspace.keepResults), activeTabId, editorHeight };
+      const serialized = JSON.stringify(state);
+      if (serialized === lastSavedWorkspace.current) return;
+      await saveWorkspace({ ...state, updatedAt: Date.now() });
+      lastSavedWorkspace.current = serialized;
+  };
+
+  // Requests of the current tabs are stopped: their tabs disappear with the workspace
+  const leaveWorkspace = async () => {
+      Object.values(runControllers.current).forEach(controller => controller.abort());
+      await persistWorkspace();
+  };
+
+  const handleSwitchWorkspace = async (id: string) => {
+      const next = await getWorkspace(id);
+      if (!next) return;
+      await leaveWorkspace();
+      applyWorkspace(next);
+  };
+
+  const handleCreateWorkspace = async (name: string) => {
+      await leaveWorkspace();
+      const next = createWorkspace(name);
+      await saveWorkspace(next);
+      applyWorkspace(next);
+      setWorkspaces(await getWorkspaceSummaries());
+  };
+
+  const handleRenameWorkspace = async (name: string) => {
+      if (!workspace) return;
+      const renamed = { ...workspace, name };
+      setWorkspace(renamed);
+      await saveWorkspace({ ...renamed, tabs: toStoredTabs(tabs, renamed.keepResults), activeTabId, editorHeight, updatedAt: Date.now() });
+      setWorkspaces(await getWorkspaceSummaries());
+  };
+
+  const handleDeleteWorkspace = async (id: string) => {
+      await deleteWorkspace(id);
+      const remaining = await getWorkspaceSummaries();
+      if (id === workspace?.id) {
+          Object.values(runControllers.current).forEach(controller => controller.abort());
+          const next = (remaining[0] && await getWorkspace(remaining[0].id)) || createWorkspace('Default');
+          if (remaining.length === 0) await saveWorkspace(next);
+          applyWorkspace(next);
+      }
+      setWorkspaces(await getWorkspaceSummaries());
+  };
+
   // --- Tab Management ---
   const handleNewTab = () => {
-      const newId = generateId();
-      setTabs([...tabs, { 
-          id: newId, 
-          name: `Query ${tabs.length + 1}`, 
-          query: '', 
-          rowLimit: 100, 
-          result: null, 
-          error: null, 
-          isLoading: false, 
-          view: TabView.TABLE 
-        }]);
-      setActiveTabId(newId);
+      const tab = createTab(`Query ${tabs.length + 1}`);
+      setTabs([...tabs, tab]);
+      setActiveTabId(tab.id);
   };
 
   const handleCloseTab = (e: React.MouseEvent, id: string) => {
       e.stopPropagation();
       if (tabs.length === 1) return; // Don't close last tab
+      runControllers.current[id]?.abort();
       const newTabs = tabs.filter(t => t.id !== id);
       setTabs(newTabs);
       if (id === activeTabId) {
@@ -179,29 +410,561 @@ const App: React.FC = () => {
       }
   };
 
+  // Editing invalidates error positions (the ORA code and message stay in the results pane)
+  const handleQueryChange = (query: string) => {
+    const clearOffset = (detail?: OracleErrorDetail | null) => detail?.offset !== undefined ? { ...detail, offset: undefined } : detail;
+    updateActiveTab({
+        query,
+        ...(activeTab.errorDetail?.offset !== undefined && { errorDetail: clearOffset(activeTab.errorDetail) }),
+        ...(activeTab.scriptResults?.some(r => r.errorDetail?.offset !== undefined) && {
+            scriptResults: activeTab.scriptResults.map(r => ({ ...r, errorDetail: clearOffset(r.errorDetail) }))
+        })
+    });
+  };
+
   // --- Execution ---
-  const handleRun = async () => {
-    if (!activeConfig.username) {
+  // editorOffset = where the executed SQL starts in the editor (null when it was rewritten, e.g. batches)
+  const handleRun = (sql?: string, start?: number) => {
+    if (sql === undefined) startRun('query', activeTab.query, undefined, 0);
+    else startRun('query', sql, undefined, start ?? null);
+  };
+  const handleRunScript = () => startRun('script', activeTab.query, undefined, 0);
+  const handleRunScheduled = () => startRun('schedule', activeTab.query, undefined, 0);
+  const handleBatchSubmit = (plan: BatchPlan) => {
+    setIsBatchOpen(false);
+    // Remaining placeholders are the same in every batch, so the first one is representative
+    startRun('batch', plan.batches[0], plan);
+  };
+
+  // A run only clears its own controller: the tab may have started another run since
+  const releaseController = (tabId: string, controller: AbortController) => {
+    if (runControllers.current[tabId] === controller) delete runControllers.current[tabId];
+  };
+
+  const startRun = (mode: RunMode, sql: string, batch?: BatchPlan, editorOffset: number | null = null) => {
+    // One request per tab: a second run would take over the Stop button and the result of the first
+    if (activeTab.isLoading || activeTab.isLoadingMore) return;
+
+    // Local tabs never reach Oracle: no credentials or bind prompt needed
+    if (activeTab.engine === 'sqlite') {
+      runLocal(sql);
+      return;
+    }
+
+    if (!hasCredentials(activeConfig)) {
       setIsSettingsOpen(true);
       return;
     }
 
-    updateActiveTab({ isLoading: true, error: null });
+    // Prompt for :NAME placeholders before sending anything to Oracle
+    const variables = findBindVariables(sql);
+    if (variables.length > 0) {
+      const savedQuery = savedQueries.find(q => q.id === activeTab.savedQueryId);
+      setBindPrompt({
+          mode,
+          sql,
+          batch,
+          editorOffset,
+          variables,
+          initialValues: { ...savedQuery?.bindValues, ...activeTab.bindValues }
+      });
+      return;
+    }
+
+    if (mode === 'script') runScript(sql);
+    else if (mode === 'schedule') runScheduled(sql);
+    else if (mode === 'batch' && batch) runBatch(batch);
+    else runQuery(sql, undefined, editorOffset);
+  };
+
+  const handleBindSubmit = async (values: Record<string, BindValue>) => {
+    if (!bindPrompt) return;
+    const { mode, sql, batch, editorOffset } = bindPrompt;
+    setBindPrompt(null);
+    updateActiveTab({ bindValues: values });
+
+    // Remember the values on the library entry so the next run is pre-filled
+    const savedQuery = savedQueries.find(q => q.id === activeTab.savedQueryId);
+    if (savedQuery) {
+      await handleSaveQuery({ ...savedQuery, bindValues: { ...savedQuery.bindValues, ...values } });
+    }
+
+    if (mode === 'script') runScript(sql, values);
+    else if (mode === 'schedule') runScheduled(sql, values);
+    else if (mode === 'batch' && batch) runBatch(batch, values);
+    else runQuery(sql, values, editorOffset);
+  };
+
+  // Structured ORA details with the error position shifted into editor coordinates
+  const toErrorDetail = (err: any, editorOffset: number | null): OracleErrorDetail | null => {
+    if (!(err instanceof OracleQueryError)) return null;
+    return {
+        code: err.code,
+        message: err.oraMessage,
+        offset: err.position !== undefined && editorOffset !== null ? editorOffset + err.position : undefined
+    };
+  };
+
+  // Logs a finished execution in the query history
+  const logExecution = (sql: string, started: number, result: QueryResult | null, err?: any, config: ConnectionConfig = activeConfig) => {
+    recordExecution(config, {
+        query: sql,
+        status: err ? (err instanceof QueryAbortedError ? err.reason : 'error') : 'success',
+        rowCount: result?.rows.length,
+        durationMs: Math.round(performance.now() - started),
+        error: err ? (err.message || "Unknown error occurred") : undefined
+    }).then(item => item && setHistoryVersion(v => v + 1));
+  };
+
+  const runQuery = async (sql: string, bindValues?: Record<string, BindValue>, editorOffset: number | null = null) => {
+    const controller = new AbortController();
+    runControllers.current[activeTab.id] = controller;
+    updateActiveTab({ 
+        isLoading: true, error: null, errorDetail: null, errorAttempts: undefined, status: 'running', scriptResults: undefined, batchProgress: undefined, executedQuery: sql,
+        snapshot: undefined, comparison: undefined, loadMoreError: undefined
+    });
+    const started = performance.now();
     
     try {
-      const data = await executeSoapQuery(activeTab.query, activeConfig, activeTab.rowLimit);
+      const data = await executeQuery(sql, activeConfig, activeTab.rowLimit, {
+          signal: controller.signal,
+          bindValues
+      });
+      logExecution(sql, started, data);
       
       updateActiveTab({ 
           result: data, 
           isLoading: false,
+          status: 'success',
           view: activeTab.view === TabView.RAW_XML ? TabView.RAW_XML : TabView.TABLE
       });
     } catch (err: any) {
+      promptForCredentials(err);
+      logExecution(sql, started, null, err);
       updateActiveTab({ 
           error: err.message || "Unknown error occurred", 
+          errorDetail: toErrorDetail(err, editorOffset),
+          errorAttempts: err.attempts,
           result: null, 
-          isLoading: false 
+          isLoading: false,
+          status: err instanceof QueryAbortedError ? err.reason : 'error'
+      });
+    } finally {
+      releaseController(activeTab.id, controller);
+    }
+  };
+
+  const runScript = async (sql: string, bindValues?: Record<string, BindValue>) => {
+    const tabId = activeTab.id;
+    const stopOnError = activeTab.stopScriptOnError !== false;
+    const statements = splitSqlStatements(sql);
+    if (statements.length === 0) return;
+
+    const controller = new AbortController();
+    runControllers.current[tabId] = controller;
+    updateTab(tabId, () => ({
+        isLoading: true,
+        error: null,
+        errorDetail: null,
+        result: null,
+        snapshot: undefined,
+        comparison: undefined,
+        loadMoreError: undefined,
+        status: 'running',
+        batchProgress: undefined,
+        activeScriptIndex: 0,
+        scriptResults: statements.map(stmt => ({
+            sql: stmt.text, start: stmt.start, status: 'pending', result: null, error: null, executionTimeMs: 0
+        }))
+    }));
+
+    const updateStatement = (index: number, updates: Partial<ScriptStatementResult>) => {
+        updateTab(tabId, t => ({
+            scriptResults: t.scriptResults?.map((r, i) => i === index ? { ...r, ...updates } : r)
+        }));
+    };
+
+    // Marks every statement after `index` with the given terminal status
+    const markRemaining = (index: number, status: ScriptStatementResult['status']) => {
+        updateTab(tabId, t => ({
+            scriptResults: t.scriptResults?.map((r, i) => i > index ? { ...r, status } : r)
+        }));
+    };
+
+    let hadError = false;
+    let aborted: 'cancelled' | 'timeout' | null = null;
+
+    for (let i = 0; i < statements.length; i++) {
+      updateStatement(i, { status: 'running' });
+      updateTab(tabId, () => ({ activeScriptIndex: i }));
+      const started = performance.now();
+
+      try {
+        const data = await executeQuery(statements[i].text, activeConfig, activeTab.rowLimit, {
+            signal: controller.signal,
+            bindValues
+        });
+        logExecution(statements[i].text, started, data);
+        updateStatement(i, { status: 'success', result: data, executionTimeMs: data.executionTimeMs });
+      } catch (err: any) {
+        promptForCredentials(err);
+        logExecution(statements[i].text, started, null, err);
+        const status = err instanceof QueryAbortedError ? err.reason : 'error';
+        updateStatement(i, { 
+            status, 
+            error: err.message || "Unknown error occurred", 
+            errorDetail: toErrorDetail(err, statements[i].start),
+            executionTimeMs: Math.round(performance.now() - started) 
+        });
+
+        if (err instanceof QueryAbortedError) {
+          aborted = err.reason;
+          markRemaining(i, 'cancelled');
+          break;
+        }
+        hadError = true;
+        if (stopOnError) {
+          markRemaining(i, 'skipped');
+          break;
+        }
+      }
+    }
+
+    releaseController(tabId, controller);
+    updateTab(tabId, () => ({ isLoading: false, status: aborted || (hadError ? 'error' : 'success') }));
+  };
+
+  const runBatch = async (plan: BatchPlan, bindValues?: Record<string, BindValue>) => {
+    const tabId = activeTab.id;
+    const sql = activeTab.query; // Logged as written, with the full IN list
+    const controller = new AbortController();
+    runControllers.current[tabId] = controller;
+    updateTab(tabId, () => ({
+        isLoading: true,
+        error: null,
+        errorDetail: null,
+        errorAttempts: undefined,
+        snapshot: undefined,
+        comparison: undefined,
+        loadMoreError: undefined,
+        status: 'running',
+        scriptResults: undefined,
+        executedQuery: undefined,
+        batchProgress: { completed: 0, total: plan.batches.length, errors: [] }
+    }));
+    const started = performance.now();
+
+    try {
+      const data = await runBatchedQuery(plan, activeConfig, activeTab.rowLimit, {
+          signal: controller.signal,
+          bindValues,
+          onProgress: (progress) => updateTab(tabId, () => ({ batchProgress: progress }))
       });
+      logExecution(sql, started, data);
+      updateTab(tabId, t => ({
+          result: data,
+          isLoading: false,
+          status: 'success',
+          view: t.view === TabView.RAW_XML ? TabView.TABLE : t.view // Merged batches have no raw XML
+      }));
+    } catch (err: any) {
+      promptForCredentials(err);
+      logExecution(sql, started, null, err);
+      updateTab(tabId, () => ({
+          error: err.message || "Unknown error occurred",
+          errorDetail: toErrorDetail(err, null),
+          errorAttempts: err.attempts,
+          result: null,
+          isLoading: false,
+          status: err instanceof QueryAbortedError ? err.reason : 'error'
+      }));
+    } finally {
+      releaseController(tabId, controller);
+    }
+  };
+
+  const runLocal = async (sql: string) => {
+    updateActiveTab({ isLoading: true, error: null, errorDetail: null, errorAttempts: undefined, loadMoreError: undefined, status: 'running', executedQuery: sql });
+    try {
+      const data = await runLocalQuery(sql);
+      updateActiveTab({ result: data, isLoading: false, status: 'success', view: TabView.TABLE });
+    } catch (err: any) {
+      updateActiveTab({ error: err.message || "Unknown error occurred", result: null, isLoading: false, status: 'error' });
+    }
+  };
+
+  // Loads the displayed result into a SQLite table and opens (or focuses) the local SQL tab
+  const handleQueryLocally = async () => {
+    const result = activeScript ? activeScript.result : activeTab.result;
+    if (!result) return;
+    // A tab reloads into its own table; other tabs with the same name get name_2, name_3...
+    const tableName = localTableTabs.current[activeTab.id]
+        || uniqueTableName(toTableName(activeTab.name), localTables.map(t => t.name));
+    let rowCount: number;
+    try {
+      rowCount = await loadResultTable(tableName, result);
+    } catch (e: any) {
+      alert(`Could not load the result into SQLite: ${e.message || e}`);
+      return;
+    }
+    localTableTabs.current[activeTab.id] = tableName;
+    setLocalTables(await getScratchTables());
+
+    const localTab = tabs.find(t => t.engine === 'sqlite');
+    if (localTab) {
+      setActiveTabId(localTab.id);
+      return;
+    }
+    const tab = createTab('Local SQL', `-- SQLite over loaded results (${tableName}: ${rowCount.toLocaleString()} rows)\nSELECT *\nFROM ${tableName}\nLIMIT 100`);
+    setTabs(prev => [...prev, { ...tab, engine: 'sqlite' }]);
+    setActiveTabId(tab.id);
+  };
+
+  const handleDropLocalTable = async (name: string) => {
+    await dropScratchTable(name);
+    Object.keys(localTableTabs.current).forEach(tabId => {
+      if (localTableTabs.current[tabId] === name) delete localTableTabs.current[tabId];
+    });
+    setLocalTables(await getScratchTables());
+  };
+
+  const handleStop = () => {
+    runControllers.current[activeTab.id]?.abort();
+  };
+
+  const handleLoadMore = async () => {
+    const current = activeTab.result;
+    if (!current || !current.paging?.hasMore || activeTab.isLoading || activeTab.isLoadingMore) return;
+
+    const sql = activeTab.executedQuery ?? activeTab.query;
+    const controller = new AbortController();
+    runControllers.current[activeTab.id] = controller;
+    updateActiveTab({ isLoadingMore: true, loadMoreError: undefined });
+
+    try {
+      const page = await executeQuery(sql, activeConfig, current.paging.pageSize, {
+          offset: current.paging.offset + current.rows.length,
+          signal: controller.signal,
+          bindValues: activeTab.bindValues
+      });
+
+      // Merge any columns that only appear in the new page (Oracle omits empty elements)
+      const columns = [...current.columns];
+      page.columns.forEach(col => { if (!columns.includes(col)) columns.push(col); });
+
+      const rows = [...current.rows, ...page.rows];
+      // Each page is a separate run: without ORDER BY, rows may repeat or be missing across pages
+      const warnings = hasTopLevelOrderBy(sql) || current.warnings?.includes(UNORDERED_PAGES_WARNING)
+          ? current.warnings
+          : [...(current.warnings || []), UNORDERED_PAGES_WARNING];
+      updateActiveTab({
+          result: {
+              ...current,
+              columns,
+              columnMeta: inferColumnTypes(columns, rows),
+              rows,
+              warnings,
+              rawXml: page.rawXml,
+              executionTimeMs: current.executionTimeMs + page.executionTimeMs,
+              paging: { ...current.paging, hasMore: page.paging?.hasMore || false }
+          },
+          isLoadingMore: false
+      });
+    } catch (err: any) {
+      promptForCredentials(err);
+      // The rows already loaded stay visible; the failure is shown below them
+      updateActiveTab({
+          loadMoreError: err.message || "Unknown error occurred",
+          isLoadingMore: false
+      });
+    } finally {
+      releaseController(activeTab.id, controller);
+    }
+  };
+
+  // --- Scheduled Runs ---
+  const pollRun = (run: ScheduledRun, config: ConnectionConfig) => {
+    setPollingRunIds(prev => [...prev, run.id]);
+    pollScheduledRun(run, config, (updated, result) => {
+        setScheduledRuns(prev => prev.map(r => r.id === updated.id ? updated : r));
+        // Show the output in the submitting tab (when it is still open)
+        const tabId = scheduledRunTabs.current[updated.id];
+        if (tabId && result) showScheduledResult(tabId, updated, result);
+    }).finally(() => {
+        setPollingRunIds(prev => prev.filter(id => id !== run.id));
+        delete scheduledRunTabs.current[run.id];
+    });
+  };
+
+  const showScheduledResult = (tabId: string, run: ScheduledRun, result: QueryResult) => {
+    updateTab(tabId, () => ({
+        result,
+        error: null,
+        errorDetail: null,
+        loadMoreError: undefined,
+        status: 'success',
+        scriptResults: undefined,
+        batchProgress: undefined,
+        executedQuery: run.query,
+        bindValues: run.bindValues
+    }));
+  };
+
+  const runScheduled = async (sql: string, bindValues?: Record<string, BindValue>) => {
+    const tabId = activeTab.id;
+    try {
+      const run = await submitScheduledRun(sql, activeConfig, activeTab.rowLimit, `${activeTab.name} (${new Date().toLocaleTimeString()})`, bindValues);
+      setScheduledRuns(prev => [run, ...prev]);
+      scheduledRunTabs.current[run.id] = tabId;
+      setIsScheduledOpen(true);
+      pollRun(run, activeConfig);
+    } catch (err: any) {
+      promptForCredentials(err);
+      updateTab(tabId, () => ({
+          error: err.message || "Unknown error occurred",
+          errorDetail: toErrorDetail(err, 0),
+          result: null,
+          status: err instanceof QueryAbortedError ? err.reason : 'error'
+      }));
+    }
+  };
+
+  // --- Catalog Reports ---
+  // Runs an existing report in a new tab; the query text only documents the path and parameters
+  const handleRunReport = async (report: CatalogItem, parameters: Record<string, string[]>) => {
+    setCatalogReport(null);
+    const tabId = generateId();
+    const filled = Object.entries(parameters).filter(([, values]) => values.length > 0);
+    const query = [
+        `-- Report: ${report.absolutePath}`,
+        ...filled.map(([name, values]) => `--   ${name} = ${values.join(', ')}`)
+    ].join('\n');
+    const rowLimit = activeTab.rowLimit;
+    setTabs(prev => [...prev, {
+        id: tabId,
+        name: report.displayName,
+        query,
+        rowLimit,
+        result: null,
+        error: null,
+        isLoading: true,
+        status: 'running',
+        view: TabView.TABLE
+    }]);
+    setActiveTabId(tabId);
+
+    const controller = new AbortController();
+    runControllers.current[tabId] = controller;
+    try {
+      const result = await runCatalogReport(activeConfig, report.absolutePath, parameters, rowLimit, controller.signal);
+      updateTab(tabId, () => ({ result, isLoading: false, status: 'success' }));
+    } catch (err: any) {
+      promptForCredentials(err);
+      updateTab(tabId, () => ({
+          error: err.message || "Unknown error occurred",
+          isLoading: false,
+          status: err instanceof QueryAbortedError ? err.reason : 'error'
+      }));
+    } finally {
+      releaseController(tabId, controller);
+    }
+  };
+
+  const handleResumeScheduled = (run: ScheduledRun) => {
+    const config = savedConnections.find(c => c.id === run.connectionId);
+    if (!config) return;
+    const resumed: ScheduledRun = { ...run, status: 'running', error: undefined, completedAt: undefined };
+    setScheduledRuns(prev => prev.map(r => r.id === run.id ? resumed : r));
+    pollRun(resumed, config);
+  };
+
+  const handleOpenScheduled = async (run: ScheduledRun) => {
+    const result = await getScheduledRunResult(run.id);
+    if (!result) {
+      alert("The stored output of this run could not be found.");
+      return;
+    }
+    showScheduledResult(activeTab.id, run, result);
+    setIsScheduledOpen(false);
+  };
+
+  const handleCancelScheduled = async (run: ScheduledRun) => {
+    const config = savedConnections.find(c => c.id === run.connectionId);
+    if (!config || !confirm(`Cancel job ${run.jobId} on the server?`)) return;
+    try {
+      const cancelled = await cancelScheduledRun(run, config);
+      setScheduledRuns(prev => prev.map(r => r.id === run.id ? cancelled : r));
+    } catch (e: any) {
+      alert(`Cancel failed: ${e.message || e}`);
+    }
+  };
+
+  const handleDeleteScheduled = async (run: ScheduledRun) => {
+    if (isRunPending(run) && !confirm(`Job ${run.jobId} is still pending. Stop tracking it? (It keeps running on the server.)`)) return;
+    stopPollingRun(run.id);
+    await deleteScheduledRun(run.id);
+    setScheduledRuns(prev => prev.filter(r => r.id !== run.id));
+  };
+
+  // --- Extraction Jobs ---
+  const startExtraction = (job: ExtractionJob) => {
+    const config = savedConnections.find(c => c.id === job.connectionId);
+    if (!config) {
+      alert("The connection used by this job no longer exists.");
+      return;
+    }
+    runExtractionJob(job, config, (updated) => {
+        setExtractionJobs(prev => prev.map(j => j.id === updated.id ? updated : j));
+    });
+  };
+
+  const handleCreateExtraction = (request: NewExtractionRequest) => {
+    if (!hasCredentials(activeConfig) || activeConfig.id === 'temp') {
+      setIsSettingsOpen(true);
+      return;
+    }
+    const blocker = getExtractionBlocker(activeTab.query, activeConfig);
+    if (blocker) {
+      alert(blocker);
+      return;
+    }
+    const missing = findBindVariables(activeTab.query).filter(v => !activeTab.bindValues?.[v]);
+    if (missing.length > 0) {
+      alert(`Run the query once to provide values for: ${missing.map(v => `:${v}`).join(', ')}`);
+      return;
+    }
+
+    const now = Date.now();
+    const job: ExtractionJob = {
+        id: generateId(),
+        name: request.name,
+        connectionId: activeConfig.id,
+        query: activeTab.query,
+        bindValues: activeTab.bindValues,
+        pageSize: request.pageSize,
+        status: 'paused',
+        rowsFetched: 0,
+        nextOffset: 0,
+        columns: [],
+        exportFormat: request.exportFormat,
+        createdAt: now,
+        updatedAt: now
+    };
+    setExtractionJobs(prev => [job, ...prev]);
+    startExtraction(job);
+  };
+
+  const handleDeleteExtraction = async (job: ExtractionJob) => {
+    if (!confirm(`Delete "${job.name}" and its ${job.rowsFetched.toLocaleString()} stored rows?`)) return;
+    await removeExtractionJob(job.id);
+    setExtractionJobs(prev => prev.filter(j => j.id !== job.id));
+  };
+
+  const handleExportExtraction = async (job: ExtractionJob, format: 'csv' | 'xlsx') => {
+    try {
+      await exportExtractionJob(job, format);
+    } catch (e: any) {
+      alert(`Export failed: ${e.message || e}`);
     }
   };
 
@@ -246,10 +1009,108 @@ const App: React.FC = () => {
       setSavedQueries(updated);
   };
 
-  const handleLoadQuery = (sql: string) => {
-      updateActiveTab({ query: sql });
+  const handleSaveCurrentQuery = async (newQ: SavedQuery) => {
+      await handleSaveQuery({ ...newQ, bindValues: activeTab.bindValues });
+      updateActiveTab({ savedQueryId: newQ.id });
+  };
+
+  const handleLoadQuery = (q: SavedQuery) => {
+      updateActiveTab({ query: q.query, savedQueryId: q.id, bindValues: q.bindValues });
   };
 
+  const handleOpenHistory = (item: HistoryItem) => {
+      const tab = createTab(`History ${new Date(item.timestamp).toLocaleTimeString()}`, item.query);
+      setTabs(prev => [...prev, tab]);
+      setActiveTabId(tab.id);
+      setIsHistoryOpen(false);
+  };
+
+  // --- Result Snapshots ---
+  const handlePinSnapshot = async (name: string) => {
+      if (!activeTab.result || activeTab.engine === 'sqlite') return;
+      const snapshot = createSnapshot(name, activeTab, activeConfig, activeTab.result);
+      await saveSnapshot(snapshot, activeTab.result);
+      setSnapshots(prev => [snapshot, ...prev]);
+  };
+
+  // Opens the stored result offline: no request reaches Oracle
+  const handleOpenSnapshot = async (snapshot: ResultSnapshot) => {
+      const result = await getSnapshotResult(snapshot.id);
+      if (!result) return;
+      const tab = createTab(`Snapshot: ${snapshot.name}`, snapshot.query);
+      setTabs(prev => [...prev, { ...tab, result, snapshot, status: 'success', bindValues: snapshot.bindValues, executedQuery: snapshot.query }]);
+      setActiveTabId(tab.id);
+      setIsSnapshotsOpen(false);
+  };
+
+  // Runs the snapshot's SQL again (same connection and binds) and opens the differences in a new tab
+  const handleCompareSnapshot = async (snapshot: ResultSnapshot, keyColumns: string[]) => {
+      const config = savedConnections.find(c => c.id === snapshot.connectionId) || activeConfig;
+      const before = await getSnapshotResult(snapshot.id);
+      if (!before) return;
+      // 1. Fetch enough rows for new ones to show up as added; a partial snapshot is compared with the same window
+      const rowLimit = snapshot.isTruncated ? snapshot.rowCount : Math.min(50000, Math.max(100, snapshot.rowCount * 2));
+      const tab = createTab(`Compare: ${snapshot.name}`, snapshot.query);
+      const controller = new AbortController();
+      runControllers.current[tab.id] = controller;
+      setTabs(prev => [...prev, { ...tab, rowLimit, isLoading: true, status: 'running', bindValues: snapshot.bindValues, executedQuery: snapshot.query }]);
+      setActiveTabId(tab.id);
+      setIsSnapshotsOpen(false);
+      setIsDiffHidden(false);
+
+      const started = performance.now();
+      try {
+        const fresh = await executeQuery(snapshot.query, config, rowLimit, { signal: controller.signal, bindValues: snapshot.bindValues });
+        logExecution(snapshot.query, started, fresh, undefined, config);
+        // 2. A truncated fresh run would report the missing rows as removed
+        if (snapshot.isTruncated) {
+          fresh.warnings = [...(fresh.warnings || []), `The snapshot only holds the first ${snapshot.rowCount.toLocaleString()} rows: the fresh run was limited to the same window and rows beyond it are not compared.`];
+        } else if (fresh.paging?.hasMore) {
+          fresh.warnings = [...(fresh.warnings || []), `The fresh run stopped at ${rowLimit.toLocaleString()} rows: rows beyond it show up as removed.`];
+        }
+        updateTab(tab.id, () => ({
+            result: fresh,
+            comparison: { snapshot, diff: compareResults(before, fresh, keyColumns) },
+            isLoading: false,
+            status: 'success'
+        }));
+      } catch (err: any) {
+        promptForCredentials(err);
+        logExecution(snapshot.query, started, null, err, config);
+        updateTab(tab.id, () => ({
+            error: err.message || "Unknown error occurred",
+            errorAttempts: err.attempts,
+            isLoading: false,
+            status: err instanceof QueryAbortedError ? err.reason : 'error'
+        }));
+      } finally {
+        releaseController(tab.id, controller);
+      }
+  };
+
+  const handleDeleteSnapshot = async (snapshot: ResultSnapshot) => {
+      if (!confirm(`Delete the snapshot "${snapshot.name}"? It cannot be restored.`)) return;
+      await deleteSnapshot(snapshot.id);
+      setSnapshots(prev => prev.filter(s => s.id !== snapshot.id));
+  };
+
+  const activeScript = activeTab.scriptResults?.[activeTab.activeScriptIndex || 0];
+  const pendingScheduledCount = scheduledRuns.filter(r => r.connectionId === activeConfig.id && isRunPending(r)).length;
+  // OTBI connections run logical SQL: no q1..q9 parameters, ScheduleService or ALL_OBJECTS metadata
+  const isLogicalSql = activeConfig.connectionType === 'otbi';
+  const isLocalTab = activeTab.engine === 'sqlite';
+
+  // Pre-flight size check: warn before the user runs SQL that cannot fit in q1..q9
+  const sizeWarning = useMemo(() => {
+    if (isLogicalSql || isLocalTab) return null;
+    const encodedLength = estimateEncodedSqlLength(activeTab.query);
+    if (encodedLength <= MAX_ENCODED_SQL_LENGTH) return null;
+    const kb = (n: number) => `${Math.round(n / 1024)} KB`;
+    return activeConfig.sqlEncoding === 'gzip-base64'
+      ? `Query encodes to ${kb(encodedLength)} (limit ${kb(MAX_ENCODED_SQL_LENGTH)}). It will be gzipped before sending; Run will fail if it still does not fit.`
+      : `Query encodes to ${kb(encodedLength)}, over the ${kb(MAX_ENCODED_SQL_LENGTH)} limit of the report parameters. Enable "Gzip + Base64" encoding in Settings or shorten the query.`;
+  }, [activeTab.query, activeConfig.sqlEncoding, isLogicalSql, isLocalTab]);
+
   if (!isDbReady) {
     return (
       <div className="flex h-screen w-full bg-[#111] items-center justify-center text-gray-400 flex-col gap-4">
@@ -270,11 +1131,19 @@ const App: React.FC = () => {
         <div className="flex flex-col gap-4 w-full items-center">
             <button 
                 onClick={() => setIsSettingsOpen(true)}
-                className={`p-3 rounded-lg transition-all tooltip ${(!activeConfig.username) ? 'text-red-400 bg-red-900/20 animate-pulse' : 'text-gray-400 hover:text-white hover:bg-white/10'}`}
+                className={`p-3 rounded-lg transition-all tooltip ${!hasCredentials(activeConfig) ? 'text-red-400 bg-red-900/20 animate-pulse' : 'text-gray-400 hover:text-white hover:bg-white/10'}`}
                 title="Manage Connections"
             >
                 <Settings size={24} />
             </button>
+
+            <button 
+                onClick={handleLock}
+                className="p-3 rounded-lg transition-all text-gray-400 hover:text-white hover:bg-white/10"
+                title="Lock (forget decrypted credentials until the passphrase is entered again)"
+            >
+                <Lock size={24} />
+            </button>
             
             <button 
                 onClick={() => setAiPanelOpen(!aiPanelOpen)}
@@ -284,6 +1153,23 @@ const App: React.FC = () => {
                 <Sparkles size={24} />
             </button>
 
+            <button 
+                onClick={() => setIsSchemaOpen(!isSchemaOpen)}
+                disabled={isLogicalSql}
+                className={`p-3 rounded-lg transition-all disabled:opacity-30 disabled:pointer-events-none ${isSchemaOpen ? 'text-[#eab308] bg-white/10' : 'text-gray-400 hover:text-white hover:bg-white/10'}`}
+                title={isLogicalSql ? "Schema Browser (not available for OTBI connections)" : "Schema Browser"}
+            >
+                <Table2 size={24} />
+            </button>
+
+            <button 
+                onClick={() => setIsCatalogOpen(!isCatalogOpen)}
+                className={`p-3 rounded-lg transition-all ${isCatalogOpen ? 'text-[#eab308] bg-white/10' : 'text-gray-400 hover:text-white hover:bg-white/10'}`}
+                title="BI Publisher Catalog"
+            >
+                <Library size={24} />
+            </button>
+
             <button 
                 onClick={() => setIsSavedQueriesOpen(true)}
                 className={`p-3 rounded-lg transition-all text-gray-400 hover:text-white hover:bg-white/10`}
@@ -291,9 +1177,37 @@ const App: React.FC = () => {
             >
                 <FolderOpen size={24} />
             </button>
+
+            <button 
+                onClick={() => setIsJobsOpen(true)}
+                className={`p-3 rounded-lg transition-all relative ${extractionJobs.some(j => j.status === 'running') ? 'text-[#eab308]' : 'text-gray-400'} hover:text-white hover:bg-white/10`}
+                title="Extraction Jobs"
+            >
+                <HardDriveDownload size={24} />
+                {extractionJobs.some(j => j.status === 'running') && (
+                    <span className="absolute top-2 right-2 w-2 h-2 rounded-full bg-[#eab308] animate-pulse"></span>
+                )}
+            </button>
         </div>
       </div>
 
+      {/* Schema Browser (Collapsible Panel) */}
+      {isSchemaOpen && activeConfig.id && !isLogicalSql && (
+          <SchemaBrowser 
+            config={activeConfig}
+            onClose={() => setIsSchemaOpen(false)}
+          />
+      )}
+
+      {/* Catalog Browser (Collapsible Panel) */}
+      {isCatalogOpen && activeConfig.id && (
+          <CatalogBrowser 
+            config={activeConfig}
+            onClose={() => setIsCatalogOpen(false)}
+            onSelectReport={setCatalogReport}
+          />
+      )}
+
       {/* Main Content */}
       <div className="flex-1 flex flex-col overflow-hidden relative">
         
@@ -326,7 +1240,10 @@ const App: React.FC = () => {
                                                 ${activeConnectionId === conn.id ? 'text-[#eab308] bg-[#333]/50' : 'text-gray-300'}
                                             `}
                                         >
-                                            <div className="w-2 h-2 rounded-full bg-current"></div>
+                                            <div
+                                                className={`w-2 h-2 rounded-full ${connectionStatuses[conn.id] ? (connectionStatuses[conn.id].ok ? 'bg-green-500' : 'bg-red-500') : 'bg-current'}`}
+                                                title={connectionStatuses[conn.id] ? describeStatus(connectionStatuses[conn.id]) : 'Not tested yet'}
+                                            ></div>
                                             <div className="flex-1 truncate">{conn.name}</div>
                                         </button>
                                     ))
@@ -345,6 +1262,22 @@ const App: React.FC = () => {
                 )}
             </div>
 
+            {workspace && (
+                <div className="mr-auto ml-3">
+                    <WorkspaceMenu
+                        workspaces={workspaces}
+                        activeId={workspace.id}
+                        activeName={workspace.name}
+                        keepResults={workspace.keepResults}
+                        onSwitch={handleSwitchWorkspace}
+                        onCreate={handleCreateWorkspace}
+                        onRename={handleRenameWorkspace}
+                        onDelete={handleDeleteWorkspace}
+                        onKeepResultsChange={(keepResults) => setWorkspace({ ...workspace, keepResults })}
+                    />
+                </div>
+            )}
+
             <div className="flex items-center gap-4">
                  <div className="text-xs text-gray-500">
                     Host: <span className="text-gray-300">{new URL(activeConfig.url || 'http://localhost').hostname}</span>
@@ -394,12 +1327,72 @@ const App: React.FC = () => {
                     />
                 </div>
                 <div className="w-[1px] h-4 bg-gray-700 mx-2"></div>
+                <button 
+                    onClick={handleRunScript}
+                    disabled={activeTab.isLoading || isLocalTab}
+                    className="flex items-center gap-1.5 text-xs text-gray-300 hover:text-white px-2 py-1 rounded hover:bg-white/5 disabled:opacity-50"
+                    title="Run each ;-separated statement and show one result per statement"
+                >
+                    <ListOrdered size={14}/> Run Script
+                </button>
+                <button 
+                    onClick={() => setIsBatchOpen(true)}
+                    disabled={activeTab.isLoading || isLocalTab}
+                    className="flex items-center gap-1.5 text-xs text-gray-300 hover:text-white px-2 py-1 rounded hover:bg-white/5 disabled:opacity-50"
+                    title="Run once per chunk of a long IN list and merge the results"
+                >
+                    <Layers size={14}/> Batch List
+                </button>
+                <button 
+                    onClick={handleRunScheduled}
+                    disabled={activeTab.isLoading || isLogicalSql || isLocalTab}
+                    className="flex items-center gap-1.5 text-xs text-gray-300 hover:text-white px-2 py-1 rounded hover:bg-white/5 disabled:opacity-50"
+                    title={isLogicalSql
+                        ? "Not available for OTBI connections (logical SQL runs through XmlViewService)"
+                        : "Submit through the BI Publisher ScheduleService and download the output when the job finishes (no request timeout)"}
+                >
+                    <Clock size={14}/> Run Async
+                </button>
+                <button 
+                    onClick={() => setIsScheduledOpen(true)}
+                    className="flex items-center gap-1.5 text-xs text-gray-400 hover:text-white px-1.5 py-1 rounded hover:bg-white/5"
+                    title="Scheduled runs of this connection"
+                >
+                    Jobs
+                    {pendingScheduledCount > 0 && (
+                        <span className="px-1.5 rounded-full bg-[#eab308] text-black text-[10px] font-bold">{pendingScheduledCount}</span>
+                    )}
+                </button>
+                <label className="flex items-center gap-1.5 text-xs text-gray-400 cursor-pointer select-none">
+                    <input 
+                        type="checkbox"
+                        className="accent-[#eab308]"
+                        checked={activeTab.stopScriptOnError !== false}
+                        onChange={(e) => updateActiveTab({ stopScriptOnError: e.target.checked })}
+                    />
+                    Stop on error
+                </label>
+                <div className="w-[1px] h-4 bg-gray-700 mx-2"></div>
                 <button 
                     onClick={() => setIsSavedQueriesOpen(true)} 
                     className="flex items-center gap-1.5 text-xs text-gray-300 hover:text-white px-2 py-1 rounded hover:bg-white/5"
                 >
                     <FolderOpen size={14}/> Open...
                 </button>
+                <button 
+                    onClick={() => setIsHistoryOpen(true)} 
+                    className="flex items-center gap-1.5 text-xs text-gray-300 hover:text-white px-2 py-1 rounded hover:bg-white/5"
+                    title="Every query run from this browser"
+                >
+                    <History size={14}/> History
+                </button>
+                <button 
+                    onClick={() => setIsSnapshotsOpen(true)} 
+                    className="flex items-center gap-1.5 text-xs text-gray-300 hover:text-white px-2 py-1 rounded hover:bg-white/5"
+                    title="Pin results as offline snapshots and compare them with a fresh run"
+                >
+                    <Camera size={14}/> Snapshots
+                </button>
                 <button 
                     onClick={() => setIsSavedQueriesOpen(true)}
                     className="flex items-center gap-1.5 text-xs text-gray-300 hover:text-white px-2 py-1 rounded hover:bg-white/5"
@@ -435,6 +1428,20 @@ const App: React.FC = () => {
 
         {/* Workspace: Editor (Top) & Results (Bottom) */}
         <div className="flex-1 flex flex-col min-h-0">
+            {isLocalTab && (
+                <div className="px-4 py-1.5 border-b border-gray-700 bg-[#181818] flex items-center gap-2 text-xs text-gray-400 shrink-0 overflow-x-auto">
+                    <Table2 size={12} className="text-[#eab308] shrink-0"/>
+                    <span className="shrink-0">SQLite (local) tables:</span>
+                    {localTables.length === 0 ? (
+                        <span className="text-gray-500">none loaded. Use "Query Locally" on a result to add one (tables are kept until reload).</span>
+                    ) : localTables.map(t => (
+                        <span key={t.name} className="group flex items-center gap-1 px-2 py-0.5 rounded bg-[#2a2a2a] border border-gray-700 font-mono shrink-0">
+                            {t.name} <span className="text-gray-500">({t.rowCount.toLocaleString()})</span>
+                            <button onClick={() => handleDropLocalTable(t.name)} className="text-gray-500 hover:text-red-400" title="Drop table"><X size={10}/></button>
+                        </span>
+                    ))}
+                </div>
+            )}
             {/* Editor Area (Resizable) */}
             <div 
                 className="flex-none relative z-0"
@@ -442,9 +1449,14 @@ const App: React.FC = () => {
             >
                 <SqlEditor 
                     value={activeTab.query} 
-                    onChange={(val) => updateActiveTab({ query: val })} 
+                    onChange={handleQueryChange} 
                     onRun={handleRun}
+                    onStop={handleStop}
                     isLoading={activeTab.isLoading} 
+                    warning={sizeWarning}
+                    errorMarker={activeScript ? activeScript.errorDetail : activeTab.errorDetail}
+                    errorJumpKey={errorJumpKey}
+                    connection={activeConfig.id && !isLogicalSql && !isLocalTab ? activeConfig : null}
                 />
             </div>
             
@@ -456,14 +1468,78 @@ const App: React.FC = () => {
             ></div>
 
             {/* Results Area */}
-            <div className="flex-1 relative z-0 min-h-0 overflow-hidden">
-                <ResultsTable 
-                    result={activeTab.result} 
-                    error={activeTab.error} 
-                    onExplainError={handleExplainError}
-                    view={activeTab.view}
-                    setView={(v) => updateActiveTab({ view: v })}
-                />
+            <div className="flex-1 relative z-0 min-h-0 overflow-hidden flex flex-col">
+                {activeTab.isLoading && activeTab.batchProgress && (
+                    <div className="h-8 bg-[#181818] border-b border-gray-700 flex items-center px-4 gap-3 shrink-0 text-xs text-gray-400">
+                        <Loader2 size={12} className="animate-spin text-[#eab308]" />
+                        <span className="font-mono">Batch {Math.min(activeTab.batchProgress.completed + 1, activeTab.batchProgress.total)} / {activeTab.batchProgress.total}</span>
+                        <div className="flex-1 h-1.5 bg-[#333] rounded overflow-hidden">
+                            <div 
+                                className="h-full bg-[#eab308] transition-all"
+                                style={{ width: `${(activeTab.batchProgress.completed / activeTab.batchProgress.total) * 100}%` }}
+                            ></div>
+                        </div>
+                        {activeTab.batchProgress.errors.length > 0 && (
+                            <span className="text-red-400">{activeTab.batchProgress.errors.length} failed</span>
+                        )}
+                    </div>
+                )}
+                {activeScript ? (
+                    <>
+                        <ScriptResultsBar 
+                            statements={activeTab.scriptResults!}
+                            activeIndex={activeTab.activeScriptIndex || 0}
+                            onSelect={(idx) => updateActiveTab({ activeScriptIndex: idx })}
+                        />
+                        <div className="flex-1 min-h-0">
+                            <ResultsTable 
+                                result={activeScript.result} 
+                                error={activeScript.error} 
+                                errorDetail={activeScript.errorDetail}
+                                onJumpToError={() => setErrorJumpKey(k => k + 1)}
+                                status={activeScript.status === 'cancelled' || activeScript.status === 'timeout' ? activeScript.status : undefined}
+                                view={activeTab.view}
+                                setView={(v) => updateActiveTab({ view: v })}
+                                onQueryLocally={handleQueryLocally}
+                                displayFormat={displayFormat}
+                            />
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        {activeTab.comparison && activeTab.result && (
+                            <div className="flex gap-1 px-4 py-1 border-b border-gray-700 bg-[#181818] text-xs">
+                                <button onClick={() => setIsDiffHidden(false)} className={`px-2 py-0.5 rounded ${!isDiffHidden ? 'bg-[#333] text-white' : 'text-gray-500 hover:text-gray-300'}`}>Differences</button>
+                                <button onClick={() => setIsDiffHidden(true)} className={`px-2 py-0.5 rounded ${isDiffHidden ? 'bg-[#333] text-white' : 'text-gray-500 hover:text-gray-300'}`}>Fresh Result</button>
+                            </div>
+                        )}
+                        {activeTab.comparison && activeTab.result && !isDiffHidden ? (
+                            <div className="flex-1 min-h-0">
+                                <SnapshotDiffView comparison={activeTab.comparison} freshRowCount={activeTab.result.rows.length} />
+                            </div>
+                        ) : (
+                            <ResultsTable 
+                                result={activeTab.result} 
+                                error={activeTab.error} 
+                                errorDetail={activeTab.errorDetail}
+                                errorAttempts={activeTab.errorAttempts}
+                                snapshot={activeTab.snapshot}
+                                status={activeTab.status}
+                                onExplainError={handleExplainError}
+                                onJumpToError={() => setErrorJumpKey(k => k + 1)}
+                                view={activeTab.view}
+                                setView={(v) => updateActiveTab({ view: v })}
+                                onLoadMore={activeTab.snapshot || activeTab.comparison || isLocalTab ? undefined : handleLoadMore}
+                                isLoadingMore={activeTab.isLoadingMore}
+                                loadMoreError={activeTab.loadMoreError}
+                                isUnordered={!hasTopLevelOrderBy(activeTab.executedQuery ?? activeTab.query)}
+                                onStop={handleStop}
+                                onQueryLocally={handleQueryLocally}
+                                displayFormat={displayFormat}
+                            />
+                        )}
+                    </>
+                )}
             </div>
         </div>
       </div>
@@ -475,6 +1551,10 @@ const App: React.FC = () => {
         activeConnectionId={activeConnectionId}
         onSaveConnections={handleSaveConnections}
         onSelectConnection={handleSelectConnection}
+        displayFormat={displayFormat}
+        onDisplayFormatChange={handleDisplayFormatChange}
+        connectionStatuses={connectionStatuses}
+        onConnectionTested={handleConnectionTested}
       />
 
       <SavedQueriesModal 
@@ -482,10 +1562,94 @@ const App: React.FC = () => {
         onClose={() => setIsSavedQueriesOpen(false)}
         savedQueries={savedQueries}
         currentQuery={activeTab.query}
-        onSaveQuery={handleSaveQuery}
+        onSaveQuery={handleSaveCurrentQuery}
         onDeleteQuery={handleDeleteQuery}
         onLoadQuery={handleLoadQuery}
       />
+
+      <HistoryModal
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        connections={savedConnections}
+        refreshKey={historyVersion}
+        onOpen={handleOpenHistory}
+      />
+
+      <SnapshotsModal
+        isOpen={isSnapshotsOpen}
+        onClose={() => setIsSnapshotsOpen(false)}
+        snapshots={snapshots}
+        connections={savedConnections}
+        pinnableRows={activeTab.result && !activeTab.snapshot && !isLocalTab ? activeTab.result.rows.length : null}
+        pinDisabledReason={isLocalTab ? 'Local SQL results cannot be pinned: Compare would send their SQLite SQL to Oracle' : 'Run a query first'}
+        isPinTruncated={!!activeTab.result?.paging?.hasMore}
+        defaultName={`${activeTab.name} ${new Date().toLocaleString()}`}
+        onPin={handlePinSnapshot}
+        onOpen={handleOpenSnapshot}
+        onCompare={handleCompareSnapshot}
+        onDelete={handleDeleteSnapshot}
+      />
+
+      <ScheduledRunsModal 
+        isOpen={isScheduledOpen}
+        onClose={() => setIsScheduledOpen(false)}
+        runs={scheduledRuns.filter(r => r.connectionId === activeConfig.id)}
+        connection={activeConfig}
+        pollingIds={pollingRunIds}
+        onOpen={handleOpenScheduled}
+        onResume={handleResumeScheduled}
+        onCancel={handleCancelScheduled}
+        onDelete={handleDeleteScheduled}
+      />
+
+      <ReportRunModal 
+        report={catalogReport}
+        config={activeConfig}
+        onClose={() => setCatalogReport(null)}
+        onRun={handleRunReport}
+      />
+
+      <VaultModal
+        isOpen={isDbReady && isVaultLocked}
+        mode={vaultMeta ? 'unlock' : 'create'}
+        onUnlock={handleVaultUnlock}
+        onCreate={handleVaultCreate}
+      />
+
+      <AuthPromptModal
+        prompt={authPrompt}
+        connection={savedConnections.find(c => c.id === authPrompt?.connectionId)}
+        onClose={() => setAuthPrompt(null)}
+        onSubmit={handleAuthSubmit}
+      />
+
+      <ExtractionJobsModal 
+        isOpen={isJobsOpen}
+        onClose={() => setIsJobsOpen(false)}
+        jobs={extractionJobs}
+        connections={savedConnections}
+        currentQuery={activeTab.query}
+        onCreate={handleCreateExtraction}
+        onResume={startExtraction}
+        onPause={(job) => pauseExtractionJob(job.id)}
+        onDelete={handleDeleteExtraction}
+        onExport={handleExportExtraction}
+      />
+
+      <BatchRunModal 
+        isOpen={isBatchOpen}
+        sql={activeTab.query}
+        onClose={() => setIsBatchOpen(false)}
+        onSubmit={handleBatchSubmit}
+      />
+
+      <BindVariablesModal 
+        isOpen={bindPrompt !== null}
+        variables={bindPrompt?.variables || []}
+        initialValues={bindPrompt?.initialValues || {}}
+        onClose={() => setBindPrompt(null)}
+        onSubmit={handleBindSubmit}
+      />
     </div>
   );
 };
@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { ConnectionConfig } from '../types';
+import { getTokenExpiry } from '../services/authService';
+import { X, KeyRound, Check } from 'lucide-react';
+
+export interface AuthPrompt {
+  connectionId: string;
+  field: 'accessToken' | 'password';
+  message: string; // Why the credentials are needed (expired, rejected, ...)
+}
+
+interface AuthPromptModalProps {
+  prompt: AuthPrompt | null; // Open when set
+  connection: ConnectionConfig | undefined;
+  onClose: () => void;
+  onSubmit: (connection: ConnectionConfig) => void;
+}
+
+const AuthPromptModal: React.FC<AuthPromptModalProps> = ({ prompt, connection, onClose, onSubmit }) => {
+  const [value, setValue] = useState('');
+
+  useEffect(() => {
+    if (prompt) setValue('');
+  }, [prompt]);
+
+  if (!prompt || !connection) return null;
+
+  const isToken = prompt.field === 'accessToken';
+  const expiresAt = isToken && value.trim() ? getTokenExpiry(value.trim()) : null;
+
+  const handleSubmit = () => {
+    if (!value.trim()) return;
+    onSubmit({ ...connection, [prompt.field]: isToken ? value.trim() : value });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-[#1e1e1e] w-[520px] rounded-xl shadow-2xl border border-gray-700 flex flex-col overflow-hidden">
+
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-[#252525]">
+            <h2 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
+                <KeyRound size={20}/> Sign in to {connection.name}
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="p-4 space-y-3">
+            <div className="text-xs font-mono p-2 rounded bg-yellow-900/30 text-yellow-400 whitespace-pre-wrap break-all">{prompt.message}</div>
+            <label className="block text-xs font-semibold text-gray-500 uppercase">{isToken ? 'Bearer Token' : `Password for ${connection.username}`}</label>
+            {isToken ? (
+                <textarea
+                    className="w-full h-28 bg-[#252525] border border-gray-600 rounded p-2 text-white focus:border-[#eab308] outline-none font-mono text-xs break-all"
+                    placeholder="eyJ..."
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    autoFocus
+                />
+            ) : (
+                <input
+                    type="password"
+                    className="w-full bg-[#252525] border border-gray-600 rounded p-2 text-white focus:border-[#eab308] outline-none"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                    autoFocus
+                />
+            )}
+            {expiresAt !== null && (
+                <p className={`text-[10px] ${expiresAt < Date.now() ? 'text-red-400' : 'text-gray-500'}`}>
+                    {expiresAt < Date.now() ? 'This token has already expired' : 'Valid until'} {new Date(expiresAt).toLocaleString()}
+                </p>
+            )}
+            <p className="text-[10px] text-gray-500">Saved on the connection. Run the query again afterwards.</p>
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex gap-2 bg-[#181818]">
+            <button
+                onClick={onClose}
+                className="flex-1 px-4 py-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600"
+            >
+                Cancel
+            </button>
+            <button
+                onClick={handleSubmit}
+                disabled={!value.trim()}
+                className="flex-1 px-4 py-2 bg-[#eab308] text-black font-bold rounded hover:bg-[#ca9a04] flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+                <Check size={14}/> Save
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuthPromptModal;
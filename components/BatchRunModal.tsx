@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { findBindVariables } from '../services/sqlParser';
+import { BatchPlan, IN_LIST_LIMIT, getBatchWarning, planInListBatches, planPastedListBatches, parsePastedList } from '../services/batchService';
+import { X, Layers, Play } from 'lucide-react';
+
+interface BatchRunModalProps {
+  isOpen: boolean;
+  sql: string;
+  onClose: () => void;
+  onSubmit: (plan: BatchPlan) => void;
+}
+
+const BatchRunModal: React.FC<BatchRunModalProps> = ({ isOpen, sql, onClose, onSubmit }) => {
+  const [mode, setMode] = useState<'DETECTED' | 'PASTE'>('DETECTED');
+  const [bindName, setBindName] = useState('');
+  const [valueType, setValueType] = useState<'string' | 'number'>('string');
+  const [pasted, setPasted] = useState('');
+  const [error, setError] = useState('');
+
+  // Only analyse the SQL while the modal is open (the editor re-renders on every keystroke)
+  const variables = useMemo(() => isOpen ? findBindVariables(sql) : [], [sql, isOpen]);
+
+  const detected = useMemo(() => {
+    if (!isOpen) return { plan: null, error: '' };
+    try {
+      return { plan: planInListBatches(sql), error: '' };
+    } catch (e: any) {
+      return { plan: null, error: e.message as string };
+    }
+  }, [sql, isOpen]);
+
+  const pastedValues = useMemo(() => parsePastedList(pasted), [pasted]);
+  const warning = useMemo(() => isOpen ? getBatchWarning(sql) : undefined, [sql, isOpen]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode(detected.plan || variables.length === 0 ? 'DETECTED' : 'PASTE');
+      setBindName(variables[0] || '');
+      setError('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleRun = () => {
+    try {
+      if (mode === 'DETECTED') {
+        if (!detected.plan) return;
+        onSubmit(detected.plan);
+      } else {
+        if (!bindName) throw new Error('Add a :NAME placeholder to the query, e.g. WHERE PERSON_NUMBER IN (:IDS).');
+        onSubmit(planPastedListBatches(sql, bindName, pastedValues, valueType));
+      }
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const batchCount = Math.ceil(pastedValues.length / IN_LIST_LIMIT);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-[#1e1e1e] w-[600px] max-h-[80vh] rounded-xl shadow-2xl border border-gray-700 flex flex-col overflow-hidden">
+
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-[#252525]">
+            <h2 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
+                <Layers size={20}/> Batch List Run
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="flex gap-4 px-4 pt-3 border-b border-gray-700">
+            <button
+                onClick={() => setMode('DETECTED')}
+                className={`text-sm pb-2 font-medium ${mode === 'DETECTED' ? 'text-[#eab308] border-b-2 border-[#eab308]' : 'text-gray-400 hover:text-gray-200'}`}
+            >
+                Oversized IN List
+            </button>
+            <button
+                onClick={() => setMode('PASTE')}
+                className={`text-sm pb-2 font-medium ${mode === 'PASTE' ? 'text-[#eab308] border-b-2 border-[#eab308]' : 'text-gray-400 hover:text-gray-200'}`}
+            >
+                Paste a List
+            </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {mode === 'DETECTED' ? (
+                detected.plan ? (
+                    <div className="bg-[#111] border border-gray-700 rounded p-4 text-sm text-gray-300">
+                        Found an <span className="text-[#eab308] font-semibold">{detected.plan.description}</span>.
+                        The query will run {detected.plan.batches.length} times with at most {IN_LIST_LIMIT} values each
+                        and the rows will be merged into one result.
+                    </div>
+                ) : (
+                    <div className="text-center text-gray-500 py-8 text-sm">
+                        {detected.error || `No IN list with more than ${IN_LIST_LIMIT} values was found in the query.`}
+                    </div>
+                )
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Placeholder</label>
+                            <select
+                                className="w-full bg-[#252525] border border-gray-600 rounded p-2 text-sm text-white focus:border-[#eab308] outline-none font-mono"
+                                value={bindName}
+                                onChange={(e) => setBindName(e.target.value)}
+                            >
+                                {variables.length === 0 && <option value="">No :NAME placeholders in query</option>}
+                                {variables.map(v => <option key={v} value={v}>:{v}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Value Type</label>
+                            <select
+                                className="w-full bg-[#252525] border border-gray-600 rounded p-2 text-sm text-white focus:border-[#eab308] outline-none"
+                                value={valueType}
+                                onChange={(e) => setValueType(e.target.value as 'string' | 'number')}
+                            >
+                                <option value="string">Text (quoted)</option>
+                                <option value="number">Number</option>
+                            </select>
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Values (one per line or comma separated)</label>
+                        <textarea
+                            className="w-full h-48 bg-[#111] border border-gray-600 rounded p-2 text-xs text-white focus:border-[#eab308] outline-none font-mono resize-none"
+                            placeholder={'100001\n100002\n100003'}
+                            value={pasted}
+                            onChange={(e) => { setPasted(e.target.value); setError(''); }}
+                        />
+                        <p className="text-[10px] text-gray-500 mt-1">
+                            {pastedValues.length.toLocaleString()} distinct values • {batchCount} batch{batchCount === 1 ? '' : 'es'}.
+                            Use the placeholder as <code>IN (:{bindName || 'IDS'})</code>.
+                        </p>
+                    </div>
+                </>
+            )}
+
+            {warning && (
+                <div className="text-xs p-2 rounded bg-orange-900/30 text-orange-300">{warning}</div>
+            )}
+
+            {error && (
+                <div className="text-xs font-mono p-2 rounded bg-red-900/30 text-red-400">{error}</div>
+            )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex gap-2 bg-[#181818]">
+            <button
+                onClick={onClose}
+                className="flex-1 px-4 py-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600"
+            >
+                Cancel
+            </button>
+            <button
+                onClick={handleRun}
+                disabled={mode === 'DETECTED' ? !detected.plan : pastedValues.length === 0}
+                className="flex-1 px-4 py-2 bg-[#eab308] text-black font-bold rounded hover:bg-[#ca9a04] disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+                <Play size={14}/> Run Batches
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchRunModal;
@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { BindValue, BindValueType } from '../types';
+import { guessBindType, formatBindLiteral } from '../services/sqlParser';
+import { X, Variable, Play } from 'lucide-react';
+
+interface BindVariablesModalProps {
+  isOpen: boolean;
+  variables: string[];
+  initialValues: Record<string, BindValue>;
+  onClose: () => void;
+  onSubmit: (values: Record<string, BindValue>) => void;
+}
+
+const BindVariablesModal: React.FC<BindVariablesModalProps> = ({
+  isOpen, variables, initialValues, onClose, onSubmit
+}) => {
+  const [values, setValues] = useState<Record<string, BindValue>>({});
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      const next: Record<string, BindValue> = {};
+      variables.forEach(name => {
+        next[name] = initialValues[name] || { type: guessBindType(name), value: '' };
+      });
+      setValues(next);
+      setError('');
+    }
+  }, [isOpen, variables, initialValues]);
+
+  if (!isOpen) return null;
+
+  const updateValue = (name: string, updates: Partial<BindValue>) => {
+    setValues(prev => ({ ...prev, [name]: { ...prev[name], ...updates } }));
+    setError('');
+  };
+
+  const handleSubmit = () => {
+    try {
+      // Validate every value up front so the user can fix it in place
+      variables.forEach(name => formatBindLiteral(name, values[name]));
+      onSubmit(values);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-[#1e1e1e] w-[520px] max-h-[80vh] rounded-xl shadow-2xl border border-gray-700 flex flex-col overflow-hidden">
+
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-[#252525]">
+            <h2 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
+                <Variable size={20}/> Bind Variables
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {variables.map((name, idx) => {
+                const bind = values[name];
+                if (!bind) return null;
+                return (
+                    <div key={name} className="grid grid-cols-[1fr_100px_1.5fr] gap-2 items-center">
+                        <label className="text-xs font-mono text-gray-300 truncate" title={`:${name}`}>:{name}</label>
+                        <select
+                            className="bg-[#252525] border border-gray-600 rounded px-2 py-1.5 text-xs text-white focus:border-[#eab308] outline-none"
+                            value={bind.type}
+                            onChange={(e) => updateValue(name, { type: e.target.value as BindValueType })}
+                        >
+                            <option value="string">Text</option>
+                            <option value="number">Number</option>
+                            <option value="date">Date</option>
+                        </select>
+                        <input
+                            type="text"
+                            className="bg-[#252525] border border-gray-600 rounded px-2 py-1.5 text-sm text-white focus:border-[#eab308] outline-none font-mono"
+                            placeholder={bind.type === 'date' ? 'YYYY-MM-DD' : 'empty = NULL'}
+                            value={bind.value}
+                            onChange={(e) => updateValue(name, { value: e.target.value })}
+                            onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                            autoFocus={idx === 0}
+                        />
+                    </div>
+                );
+            })}
+
+            {error && (
+                <div className="text-xs font-mono p-2 rounded bg-red-900/30 text-red-400">{error}</div>
+            )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex gap-2 bg-[#181818]">
+            <button
+                onClick={onClose}
+                className="flex-1 px-4 py-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600"
+            >
+                Cancel
+            </button>
+            <button
+                onClick={handleSubmit}
+                className="flex-1 px-4 py-2 bg-[#eab308] text-black font-bold rounded hover:bg-[#ca9a04] flex items-center justify-center gap-2"
+            >
+                <Play size={14}/> Run
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BindVariablesModal;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { CatalogItem, ConnectionConfig } from '../types';
+import { getFolderContents } from '../services/catalogService';
+import { hasCredentials } from '../services/authService';
+import { X, RefreshCw, ChevronRight, ChevronDown, Folder, FileText, Database, File, Loader2, Library } from 'lucide-react';
+
+interface CatalogBrowserProps {
+  config: ConnectionConfig;
+  onClose: () => void;
+  onSelectReport: (report: CatalogItem) => void;
+}
+
+interface FolderState {
+  loading: boolean;
+  items?: CatalogItem[];
+  error?: string;
+}
+
+const ROOT_PATH = '/';
+
+const CatalogBrowser: React.FC<CatalogBrowserProps> = ({ config, onClose, onSelectReport }) => {
+  const [folders, setFolders] = useState<Record<string, FolderState>>({});
+  const [expanded, setExpanded] = useState<string[]>([ROOT_PATH]);
+
+  const loadFolder = async (path: string) => {
+    setFolders(prev => ({ ...prev, [path]: { ...prev[path], loading: true, error: undefined } }));
+    try {
+      const items = await getFolderContents(config, path);
+      setFolders(prev => ({ ...prev, [path]: { loading: false, items } }));
+    } catch (err: any) {
+      setFolders(prev => ({ ...prev, [path]: { loading: false, error: err.message || 'Failed to list folder.' } }));
+    }
+  };
+
+  // 1. Start over from the catalog root when the connection changes
+  useEffect(() => {
+    setFolders({});
+    setExpanded([ROOT_PATH]);
+    if (hasCredentials(config)) loadFolder(ROOT_PATH);
+  }, [config.id]);
+
+  // 2. Folder contents are only fetched the first time a folder is opened
+  const toggleFolder = (path: string) => {
+    if (expanded.includes(path)) {
+      setExpanded(prev => prev.filter(p => p !== path));
+      return;
+    }
+    setExpanded(prev => [...prev, path]);
+    if (!folders[path]?.items) loadFolder(path);
+  };
+
+  const itemIcon = (item: CatalogItem) => {
+    if (item.type === 'Folder') return <Folder size={12} className="shrink-0 text-[#eab308]"/>;
+    if (item.type === 'Report') return <FileText size={12} className="shrink-0 text-blue-400"/>;
+    if (item.type === 'DataModel') return <Database size={12} className="shrink-0 text-purple-400"/>;
+    return <File size={12} className="shrink-0 text-gray-500"/>;
+  };
+
+  const renderFolder = (path: string, depth: number): React.ReactNode => {
+    const state = folders[path];
+    const indent = { paddingLeft: 8 + depth * 12 };
+    if (!state || (state.loading && !state.items)) {
+      return <div style={indent} className="py-1 text-gray-500 flex items-center gap-1"><Loader2 size={10} className="animate-spin"/> Loading...</div>;
+    }
+    if (state.error) {
+      return <div style={indent} className="pr-2 py-1"><div className="text-[10px] p-1.5 rounded bg-red-900/30 text-red-400 whitespace-pre-wrap break-all">{state.error}</div></div>;
+    }
+    if (state.items && state.items.length === 0) {
+      return <div style={indent} className="py-1 text-gray-600 italic">Empty folder</div>;
+    }
+    return state.items?.map(item => {
+      const isFolder = item.type === 'Folder';
+      const isOpen = expanded.includes(item.absolutePath);
+      const isReport = item.type === 'Report';
+      return (
+        <div key={item.absolutePath}>
+          <div
+            style={indent}
+            onClick={() => isFolder ? toggleFolder(item.absolutePath) : isReport && onSelectReport(item)}
+            className={`flex items-center gap-1 pr-2 py-1 text-gray-300 ${isFolder || isReport ? 'cursor-pointer hover:bg-white/5' : 'opacity-60'}`}
+            title={`${item.absolutePath}${item.owner ? ` • ${item.owner}` : ''}${isReport ? ' - click to set parameters and run' : ''}`}
+          >
+            {isFolder
+              ? (isOpen ? <ChevronDown size={12} className="shrink-0 text-gray-500"/> : <ChevronRight size={12} className="shrink-0 text-gray-500"/>)
+              : <span className="w-3 shrink-0"/>}
+            {itemIcon(item)}
+            <span className="truncate flex-1">{item.displayName}</span>
+            {isFolder && folders[item.absolutePath]?.loading && <Loader2 size={10} className="animate-spin text-gray-500"/>}
+          </div>
+          {isFolder && isOpen && renderFolder(item.absolutePath, depth + 1)}
+        </div>
+      );
+    });
+  };
+
+  return (
+    <div className="w-72 flex flex-col bg-[#181818] border-r border-gray-800 z-10 min-h-0">
+      <div className="flex justify-between items-center px-3 h-12 border-b border-gray-700 shrink-0">
+        <h2 className="text-sm font-semibold text-gray-200 flex items-center gap-2">
+          <Library size={16}/> Catalog
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => { setFolders({}); setExpanded([ROOT_PATH]); loadFolder(ROOT_PATH); }}
+            disabled={!hasCredentials(config)}
+            className="text-gray-400 hover:text-white disabled:opacity-50"
+            title="Reload the catalog"
+          >
+            <RefreshCw size={14}/>
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={16} /></button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-1 text-xs">
+        {hasCredentials(config)
+          ? renderFolder(ROOT_PATH, 0)
+          : <div className="text-center text-gray-500 py-6">Configure the connection credentials to browse the catalog.</div>}
+      </div>
+    </div>
+  );
+};
+
+export default CatalogBrowser;
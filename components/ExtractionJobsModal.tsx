@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { ConnectionConfig, ExtractionJob } from '../types';
+import { X, HardDriveDownload, Play, Pause, Trash2, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+
+export interface NewExtractionRequest {
+  name: string;
+  pageSize: number;
+  exportFormat: ExtractionJob['exportFormat'];
+}
+
+interface ExtractionJobsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  jobs: ExtractionJob[];
+  connections: ConnectionConfig[];
+  currentQuery: string;
+  onCreate: (request: NewExtractionRequest) => void;
+  onResume: (job: ExtractionJob) => void;
+  onPause: (job: ExtractionJob) => void;
+  onDelete: (job: ExtractionJob) => void;
+  onExport: (job: ExtractionJob, format: 'csv' | 'xlsx') => void;
+}
+
+const STATUS_STYLES: Record<ExtractionJob['status'], string> = {
+  running: 'text-[#eab308]',
+  paused: 'text-gray-400',
+  completed: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+const ExtractionJobsModal: React.FC<ExtractionJobsModalProps> = ({
+  isOpen, onClose, jobs, connections, currentQuery, onCreate, onResume, onPause, onDelete, onExport
+}) => {
+  const [name, setName] = useState('');
+  const [pageSize, setPageSize] = useState(5000);
+  const [exportFormat, setExportFormat] = useState<ExtractionJob['exportFormat']>('csv');
+
+  useEffect(() => {
+    if (isOpen) setName('');
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleCreate = () => {
+    if (!name.trim() || !currentQuery.trim()) return;
+    onCreate({ name: name.trim(), pageSize, exportFormat });
+    setName('');
+  };
+
+  const connectionName = (id: string) => connections.find(c => c.id === id)?.name || 'Deleted connection';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-[#1e1e1e] w-[720px] max-h-[80vh] rounded-xl shadow-2xl border border-gray-700 flex flex-col overflow-hidden">
+
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-[#252525]">
+            <h2 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
+                <HardDriveDownload size={20}/> Extraction Jobs
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        {/* New Job (from the active tab's query) */}
+        <div className="p-4 border-b border-gray-700 space-y-3">
+            <div className="grid grid-cols-[1fr_110px_130px_auto] gap-2 items-end">
+                <div>
+                    <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Job Name</label>
+                    <input
+                        type="text"
+                        className="w-full bg-[#252525] border border-gray-600 rounded px-3 py-2 text-sm text-white focus:border-[#eab308] outline-none"
+                        placeholder="e.g. All assignments for reconciliation"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Page Size</label>
+                    <input
+                        type="number"
+                        min="100"
+                        max="50000"
+                        className="w-full bg-[#252525] border border-gray-600 rounded px-2 py-2 text-sm text-white focus:border-[#eab308] outline-none text-right"
+                        value={pageSize}
+                        onChange={(e) => setPageSize(parseInt(e.target.value) || 5000)}
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">When Done</label>
+                    <select
+                        className="w-full bg-[#252525] border border-gray-600 rounded px-2 py-2 text-sm text-white focus:border-[#eab308] outline-none"
+                        value={exportFormat}
+                        onChange={(e) => setExportFormat(e.target.value as ExtractionJob['exportFormat'])}
+                    >
+                        <option value="csv">Download CSV</option>
+                        <option value="xlsx">Download Excel</option>
+                        <option value="none">Keep only</option>
+                    </select>
+                </div>
+                <button
+                    onClick={handleCreate}
+                    disabled={!name.trim() || !currentQuery.trim()}
+                    className="bg-[#eab308] text-black px-4 py-2 rounded text-sm font-bold hover:bg-[#ca9a04] transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                    <Play size={14}/> Start
+                </button>
+            </div>
+            <p className="text-[10px] text-gray-500">
+                Extracts every row of the active tab's query page by page into the local database. Jobs survive a reload and resume from the last stored page.
+            </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+            {jobs.length === 0 ? (
+                <div className="text-center text-gray-500 py-8">No extraction jobs yet.</div>
+            ) : (
+                <div className="space-y-2">
+                    {jobs.map(job => (
+                        <div key={job.id} className="bg-[#2a2a2a] border border-gray-700 rounded p-3">
+                            <div className="flex justify-between items-start gap-4">
+                                <div className="min-w-0">
+                                    <div className="font-semibold text-gray-200 truncate">{job.name}</div>
+                                    <div className="text-xs text-gray-500">
+                                        {connectionName(job.connectionId)} • {new Date(job.createdAt).toLocaleString()}
+                                    </div>
+                                </div>
+                                <div className="flex gap-2 shrink-0">
+                                    {job.status === 'running' ? (
+                                        <button onClick={() => onPause(job)} className="p-1.5 bg-[#333] text-gray-300 rounded hover:bg-[#444]" title="Pause">
+                                            <Pause size={14}/>
+                                        </button>
+                                    ) : job.status !== 'completed' && (
+                                        <button onClick={() => onResume(job)} className="p-1.5 bg-[#333] text-[#eab308] rounded hover:bg-[#444]" title="Resume from last page">
+                                            <Play size={14}/>
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => onExport(job, 'xlsx')}
+                                        disabled={job.rowsFetched === 0}
+                                        className="p-1.5 bg-[#333] text-gray-300 rounded hover:bg-[#444] disabled:opacity-30"
+                                        title="Export stored rows to Excel"
+                                    >
+                                        <FileSpreadsheet size={14}/>
+                                    </button>
+                                    <button
+                                        onClick={() => onExport(job, 'csv')}
+                                        disabled={job.rowsFetched === 0}
+                                        className="p-1.5 bg-[#333] text-gray-300 rounded hover:bg-[#444] disabled:opacity-30"
+                                        title="Export stored rows to CSV"
+                                    >
+                                        <FileText size={14}/>
+                                    </button>
+                                    <button onClick={() => onDelete(job)} className="p-1.5 bg-red-900/30 text-red-400 rounded hover:bg-red-900/50" title="Delete job and its rows">
+                                        <Trash2 size={14}/>
+                                    </button>
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-3 mt-2 text-xs">
+                                <span className={`flex items-center gap-1 font-semibold uppercase ${STATUS_STYLES[job.status]}`}>
+                                    {job.status === 'running' && <Loader2 size={12} className="animate-spin" />}
+                                    {job.status}
+                                </span>
+                                <span className="text-gray-400 font-mono">{job.rowsFetched.toLocaleString()} rows</span>
+                                <span className="text-gray-500 font-mono">page size {job.pageSize.toLocaleString()}</span>
+                            </div>
+                            {job.error && (
+                                <div className="mt-2 text-[11px] font-mono p-2 rounded bg-red-900/30 text-red-400 whitespace-pre-wrap break-all">{job.error}</div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExtractionJobsModal;
@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { ConnectionConfig, HistoryFilter, HistoryItem, HistoryRetention } from '../types';
+import { searchHistory, deleteHistoryItem, clearHistory, pruneHistory } from '../services/dbService';
+import { loadHistoryRetention, saveHistoryRetention } from '../services/historyService';
+import { X, History, Search, ExternalLink, Trash2 } from 'lucide-react';
+
+interface HistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  connections: ConnectionConfig[];
+  refreshKey: number; // Changes when an execution is logged
+  onOpen: (item: HistoryItem) => void; // Re-opens the SQL in a new tab
+}
+
+// Entries shown at once; narrow the filters to reach older ones
+const PAGE_SIZE = 200;
+
+const STATUS_STYLES: Record<HistoryItem['status'], string> = {
+  success: 'text-green-400',
+  error: 'text-red-400',
+  cancelled: 'text-gray-500',
+  timeout: 'text-orange-400',
+};
+
+const selectClass = "bg-[#252525] border border-gray-600 rounded px-2 py-1.5 text-xs text-white focus:border-[#eab308] outline-none";
+
+// yyyy-mm-dd of a date input, as local midnight
+const parseDay = (value: string): number | undefined => value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+
+const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, connections, refreshKey, onOpen }) => {
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const [search, setSearch] = useState('');
+  const [connectionId, setConnectionId] = useState('');
+  const [status, setStatus] = useState<HistoryFilter['status'] | ''>('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [retention, setRetention] = useState<HistoryRetention>(loadHistoryRetention);
+  const [retentionDraft, setRetentionDraft] = useState<HistoryRetention>(retention);
+
+  const refresh = async () => {
+    const to = parseDay(toDay);
+    setItems(await searchHistory({
+        search,
+        connectionId: connectionId || undefined,
+        status: status || undefined,
+        from: parseDay(fromDay),
+        to: to !== undefined ? to + 24 * 60 * 60 * 1000 : undefined, // Inclusive end day
+    }, PAGE_SIZE));
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, search, connectionId, status, fromDay, toDay, refreshKey]);
+
+  if (!isOpen) return null;
+
+  const connectionName = (id: string) => connections.find(c => c.id === id)?.name || (id === 'temp' ? 'Temporary' : 'Deleted connection');
+
+  const handleDelete = async (id: string) => {
+    await deleteHistoryItem(id);
+    await refresh();
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Delete the whole query history?')) return;
+    await clearHistory();
+    await refresh();
+  };
+
+  // Applied explicitly: pruning on every keystroke would drop entries while typing "2000"
+  const handleApplyRetention = async () => {
+    setRetention(retentionDraft);
+    saveHistoryRetention(retentionDraft);
+    await pruneHistory(retentionDraft);
+    await refresh();
+  };
+
+  const isRetentionChanged = retentionDraft.maxEntries !== retention.maxEntries || retentionDraft.maxAgeDays !== retention.maxAgeDays;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-[#1e1e1e] w-[860px] max-h-[85vh] rounded-xl shadow-2xl border border-gray-700 flex flex-col overflow-hidden">
+
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-[#252525]">
+            <h2 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
+                <History size={20}/> Query History
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        {/* Filters */}
+        <div className="p-4 border-b border-gray-700 space-y-2">
+            <div className="relative">
+                <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500"/>
+                <input
+                    type="text"
+                    placeholder="Search SQL and errors..."
+                    className="w-full bg-[#252525] border border-gray-600 rounded pl-8 pr-3 py-2 text-sm text-white focus:border-[#eab308] outline-none"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    autoFocus
+                />
+            </div>
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+                <select className={selectClass} value={connectionId} onChange={(e) => setConnectionId(e.target.value)}>
+                    <option value="">All connections</option>
+                    {connections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+                <select className={selectClass} value={status} onChange={(e) => setStatus(e.target.value as HistoryFilter['status'] | '')}>
+                    <option value="">Any status</option>
+                    <option value="success">Success</option>
+                    <option value="error">Error</option>
+                    <option value="timeout">Timed out</option>
+                    <option value="cancelled">Cancelled</option>
+                </select>
+                <span>From</span>
+                <input type="date" className={selectClass} value={fromDay} onChange={(e) => setFromDay(e.target.value)} />
+                <span>to</span>
+                <input type="date" className={selectClass} value={toDay} onChange={(e) => setToDay(e.target.value)} />
+            </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+            {items.length === 0 ? (
+                <div className="text-center text-gray-500 py-8 text-sm">No executions match these filters.</div>
+            ) : (
+                <div className="space-y-2">
+                    {items.map(item => (
+                        <div key={item.id} className="bg-[#2a2a2a] border border-gray-700 rounded p-3 group">
+                            <div className="flex justify-between items-start gap-4">
+                                <div className="flex items-center gap-3 text-xs min-w-0">
+                                    <span className={`font-semibold uppercase ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                                    <span className="text-gray-400">{new Date(item.timestamp).toLocaleString()}</span>
+                                    <span className="text-gray-500 truncate">{connectionName(item.connectionId)}</span>
+                                    <span className="text-gray-500 font-mono">{item.durationMs} ms</span>
+                                    {item.rowCount !== undefined && <span className="text-gray-400 font-mono">{item.rowCount.toLocaleString()} rows</span>}
+                                </div>
+                                <div className="flex gap-2 shrink-0">
+                                    <button onClick={() => onOpen(item)} className="p-1.5 bg-[#333] text-[#eab308] rounded hover:bg-[#444]" title="Open in a new tab">
+                                        <ExternalLink size={14}/>
+                                    </button>
+                                    <button onClick={() => handleDelete(item.id)} className="p-1.5 bg-red-900/30 text-red-400 rounded hover:bg-red-900/50 opacity-0 group-hover:opacity-100" title="Remove from history">
+                                        <Trash2 size={14}/>
+                                    </button>
+                                </div>
+                            </div>
+                            <pre
+                                className="mt-2 text-xs text-gray-300 font-mono bg-[#1e1e1e] p-2 rounded max-h-24 overflow-hidden whitespace-pre-wrap break-all cursor-pointer hover:bg-[#181818]"
+                                onClick={() => onOpen(item)}
+                            >
+                                {item.query}
+                            </pre>
+                            {item.error && (
+                                <div className="mt-2 text-[11px] font-mono p-2 rounded bg-red-900/30 text-red-400 whitespace-pre-wrap break-all max-h-16 overflow-hidden">{item.error}</div>
+                            )}
+                        </div>
+                    ))}
+                    {items.length === PAGE_SIZE && (
+                        <div className="text-center text-gray-500 text-xs py-2">Showing the latest {PAGE_SIZE} matches. Narrow the filters to see older runs.</div>
+                    )}
+                </div>
+            )}
+        </div>
+
+        {/* Retention */}
+        <div className="p-3 border-t border-gray-700 flex items-center gap-2 bg-[#181818] text-xs text-gray-400">
+            <span>Keep the last</span>
+            <input
+                type="number" min="0" className={`${selectClass} w-20 text-right font-mono`}
+                value={retentionDraft.maxEntries}
+                onChange={(e) => setRetentionDraft(prev => ({ ...prev, maxEntries: Math.max(0, parseInt(e.target.value) || 0) }))}
+            />
+            <span>runs, for</span>
+            <input
+                type="number" min="0" className={`${selectClass} w-16 text-right font-mono`}
+                value={retentionDraft.maxAgeDays}
+                onChange={(e) => setRetentionDraft(prev => ({ ...prev, maxAgeDays: Math.max(0, parseInt(e.target.value) || 0) }))}
+            />
+            <span>days (0 = no limit)</span>
+            {isRetentionChanged && (
+                <button onClick={handleApplyRetention} className="px-3 py-1.5 bg-[#eab308] text-black font-bold rounded hover:bg-[#ca9a04]">
+                    Apply
+                </button>
+            )}
+            <button onClick={handleClear} className="ml-auto px-3 py-1.5 bg-red-900/30 text-red-400 rounded hover:bg-red-900/50 flex items-center gap-1.5">
+                <Trash2 size={12}/> Clear History
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryModal;
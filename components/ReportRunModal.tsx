@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { CatalogItem, ConnectionConfig, ReportParameter } from '../types';
+import { getReportParameters } from '../services/catalogService';
+import { X, FileText, Play, Loader2 } from 'lucide-react';
+
+interface ReportRunModalProps {
+  report: CatalogItem | null; // Open when set
+  config: ConnectionConfig;
+  onClose: () => void;
+  onRun: (report: CatalogItem, parameters: Record<string, string[]>) => void;
+}
+
+const inputClass = "w-full bg-[#252525] border border-gray-600 rounded px-2 py-1.5 text-sm text-white focus:border-[#eab308] outline-none font-mono";
+
+// Multi-value parameters without a list of values are typed as one comma-separated text
+const isListText = (param: ReportParameter) => param.multiValuesAllowed && param.options.length === 0;
+
+const ReportRunModal: React.FC<ReportRunModalProps> = ({ report, config, onClose, onRun }) => {
+  const [parameters, setParameters] = useState<ReportParameter[]>([]);
+  const [values, setValues] = useState<Record<string, string[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Fetch the parameter definitions whenever a report is opened
+  useEffect(() => {
+    if (!report) return;
+    let cancelled = false;
+    setParameters([]);
+    setValues({});
+    setError('');
+    setIsLoading(true);
+    getReportParameters(config, report.absolutePath)
+      .then(params => {
+        if (cancelled) return;
+        setParameters(params);
+        setValues(Object.fromEntries(params.map(p => [p.name, isListText(p) ? [p.defaultValues.join(', ')] : p.defaultValues])));
+      })
+      .catch(err => !cancelled && setError(err.message || 'Failed to load report parameters.'))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => { cancelled = true; };
+  }, [report, config.id]);
+
+  if (!report) return null;
+
+  const setValue = (name: string, next: string[]) => setValues(prev => ({ ...prev, [name]: next }));
+
+  const handleRun = () => {
+    const submitted = Object.fromEntries(parameters.map(p => {
+      const current = values[p.name] || [];
+      return [p.name, isListText(p) ? (current[0] || '').split(',').map(v => v.trim()).filter(Boolean) : current];
+    }));
+    onRun(report, submitted);
+  };
+
+  const renderInput = (param: ReportParameter) => {
+    const current = values[param.name] || [];
+
+    // 1. List of values: single or multi select
+    if (param.options.length > 0) {
+      return (
+        <select
+          multiple={param.multiValuesAllowed}
+          className={`${inputClass} ${param.multiValuesAllowed ? 'h-24' : ''}`}
+          value={param.multiValuesAllowed ? current : (current[0] || '')}
+          onChange={(e) => setValue(param.name, Array.from(e.target.selectedOptions).map(o => o.value).filter(v => v !== ''))}
+        >
+          {!param.multiValuesAllowed && <option value="">(report default)</option>}
+          {param.options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      );
+    }
+
+    // 2. Free text (split on commas at run time for multi-value parameters)
+    return (
+      <input
+        type="text"
+        className={inputClass}
+        placeholder={param.dataType.toLowerCase() === 'date' ? (param.dateFormat || 'Date') : isListText(param) ? 'value1, value2, ...' : 'empty = report default'}
+        value={current[0] || ''}
+        onChange={(e) => setValue(param.name, e.target.value ? [e.target.value] : [])}
+        onKeyDown={(e) => e.key === 'Enter' && handleRun()}
+      />
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-[#1e1e1e] w-[560px] max-h-[80vh] rounded-xl shadow-2xl border border-gray-700 flex flex-col overflow-hidden">
+
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-[#252525]">
+            <h2 className="text-lg font-semibold text-gray-100 flex items-center gap-2 min-w-0">
+                <FileText size={20} className="shrink-0"/> <span className="truncate">{report.displayName}</span>
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            <div className="text-xs text-gray-500 font-mono break-all">{report.absolutePath}</div>
+
+            {isLoading && (
+                <div className="flex items-center gap-2 text-sm text-gray-400"><Loader2 size={14} className="animate-spin"/> Loading parameters...</div>
+            )}
+            {!isLoading && !error && parameters.length === 0 && (
+                <div className="text-sm text-gray-500">This report has no parameters.</div>
+            )}
+
+            {parameters.map(param => (
+                <div key={param.name} className="grid grid-cols-[1fr_1.5fr] gap-2 items-start">
+                    <label className="text-xs text-gray-300 pt-2 truncate" title={`${param.name} (${param.dataType}${param.multiValuesAllowed ? ', multiple values' : ''})`}>
+                        {param.label}
+                        <span className="block text-[10px] text-gray-500 font-mono">{param.name} • {param.dataType}</span>
+                    </label>
+                    {renderInput(param)}
+                </div>
+            ))}
+
+            {error && (
+                <div className="text-xs font-mono p-2 rounded bg-red-900/30 text-red-400 whitespace-pre-wrap break-all">{error}</div>
+            )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex gap-2 bg-[#181818]">
+            <button
+                onClick={onClose}
+                className="flex-1 px-4 py-2 bg-gray-700 text-gray-300 rounded hover:bg-gray-600"
+            >
+                Cancel
+            </button>
+            <button
+                onClick={handleRun}
+                disabled={isLoading}
+                className="flex-1 px-4 py-2 bg-[#eab308] text-black font-bold rounded hover:bg-[#ca9a04] flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+                <Play size={14}/> Run Report
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportRunModal;
@@ -1,19 +1,69 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { QueryResult, TabView } from '../types';
-import { Download, ChevronDown, FileJson, FileSpreadsheet, Code, FileText, Search, X } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ColumnType, DisplayFormat, OracleErrorDetail, QueryAttempt, QueryResult, QueryRunStatus, ResultSnapshot, TabView } from '../types';
+import { Download, ChevronDown, FileJson, FileSpreadsheet, Code, FileText, Search, X, Loader2, ArrowUp, ArrowDown, Crosshair, Camera, Database, Square } from 'lucide-react';
 import { exportToCSV, exportToJSON, exportToMarkdown, exportToXLSX, downloadFile } from '../services/exportService';
+import { inferColumnTypes, compareValues, formatValue, DEFAULT_DISPLAY_FORMAT } from '../services/formatService';
 
 interface ResultsTableProps {
   result: QueryResult | null;
   error: string | null;
+  errorDetail?: OracleErrorDetail | null;
+  errorAttempts?: QueryAttempt[]; // Retries made before the run failed
+  snapshot?: ResultSnapshot; // The result is an offline snapshot
+  onQueryLocally?: () => void; // Loads the rows into a SQLite table for local queries
+  status?: QueryRunStatus;
   onExplainError?: () => void;
+  onJumpToError?: () => void;
   view: TabView;
   setView: (v: TabView) => void;
+  onLoadMore?: () => void;
+  isLoadingMore?: boolean;
+  loadMoreError?: string; // Failed "Load next page", shown next to the rows already loaded
+  isUnordered?: boolean; // The query has no ORDER BY, so pages are not a stable continuation
+  onStop?: () => void;
+  displayFormat?: DisplayFormat;
 }
 
-const ResultsTable: React.FC<ResultsTableProps> = ({ result, error, onExplainError, view, setView }) => {
+const TYPE_BADGES: Record<ColumnType, string> = {
+  number: '123',
+  date: 'date',
+  timestamp: 'time',
+  boolean: 'y/n',
+  text: 'abc',
+};
+
+/**
+ * Collapsible log of the attempts of a retried run.
+ */
+const AttemptLog: React.FC<{ attempts: QueryAttempt[]; summary: string; className: string }> = ({ attempts, summary, className }) => (
+  <details className={`text-xs font-mono text-left ${className}`}>
+    <summary className="cursor-pointer select-none">{summary}</summary>
+    <ol className="mt-1 space-y-0.5">
+      {attempts.map(a => (
+        <li key={a.attempt} className="whitespace-pre-wrap break-all">
+          #{a.attempt} {new Date(a.startedAt).toLocaleTimeString()} • {a.durationMs} ms • {a.error ? `${a.errorKind ? `[${a.errorKind}] ` : ''}${a.error.split('\n')[0]}` : 'OK'}
+          {a.retryDelayMs !== undefined && ` • retried after ${a.retryDelayMs} ms`}
+        </li>
+      ))}
+    </ol>
+  </details>
+);
+
+const ResultsTable: React.FC<ResultsTableProps> = ({ 
+  result, error, errorDetail, errorAttempts, snapshot, onQueryLocally, status, onExplainError, onJumpToError, view, setView, onLoadMore, isLoadingMore, loadMoreError, isUnordered, onStop, displayFormat = DEFAULT_DISPLAY_FORMAT 
+}) => {
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [sort, setSort] = useState<{ column: string; direction: 'asc' | 'desc' } | null>(null);
+
+  // Column types (older results without metadata are inferred on the fly)
+  const columnTypes = useMemo(() => {
+    const types: Record<string, ColumnType> = {};
+    if (!result) return types;
+    const meta = result.columnMeta || inferColumnTypes(result.columns, result.rows);
+    meta.forEach(m => { types[m.name] = m.type; });
+    return types;
+  }, [result]);
   
   // Refs to scroll to columns
   const headerRefs = useRef<Record<string, HTMLTableCellElement | null>>({});
@@ -55,20 +105,54 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ result, error, onExplainErr
     );
   };
 
+  if (error && (status === 'cancelled' || status === 'timeout')) {
+    const isTimeout = status === 'timeout';
+    return (
+      <div className="flex flex-col items-center justify-center h-full p-8 text-center bg-[#1e1e1e]">
+        <div className={`p-6 rounded-lg max-w-2xl border ${isTimeout ? 'bg-orange-500/10 border-orange-500/50 text-orange-300' : 'bg-gray-500/10 border-gray-600 text-gray-300'}`}>
+          <h3 className="text-lg font-bold mb-2">{isTimeout ? 'Query Timed Out' : 'Query Cancelled'}</h3>
+          <p className="font-mono text-sm whitespace-pre-wrap break-all">{error}</p>
+          {errorAttempts && errorAttempts.length > 1 && (
+            <AttemptLog attempts={errorAttempts} summary={`Stopped after ${errorAttempts.length} attempts`} className="mt-3" />
+          )}
+        </div>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-red-400 p-8 text-center bg-[#1e1e1e]">
         <div className="bg-red-500/10 border border-red-500/50 p-6 rounded-lg max-w-2xl">
           <h3 className="text-lg font-bold mb-2">Query Execution Failed</h3>
+          {errorDetail && (
+             <p className="mb-3 text-sm">
+                <span className="font-mono font-bold bg-red-500/20 px-1.5 py-0.5 rounded mr-2">{errorDetail.code}</span>
+                {errorDetail.message}
+             </p>
+          )}
           <p className="font-mono text-sm whitespace-pre-wrap break-all">{error}</p>
-          {onExplainError && (
-             <button 
-                onClick={onExplainError}
-                className="mt-4 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded text-sm transition-colors"
-             >
-                Ask AI to Explain This Error
-             </button>
+          {errorAttempts && errorAttempts.length > 1 && (
+            <AttemptLog attempts={errorAttempts} summary={`Failed after ${errorAttempts.length} attempts`} className="mt-3 text-red-300" />
           )}
+          <div className="mt-4 flex justify-center gap-2">
+            {errorDetail?.offset !== undefined && onJumpToError && (
+               <button 
+                  onClick={onJumpToError}
+                  className="px-4 py-2 bg-[#333] hover:bg-[#444] text-gray-200 rounded text-sm transition-colors flex items-center gap-2"
+               >
+                  <Crosshair size={14}/> Jump to Error
+               </button>
+            )}
+            {onExplainError && (
+               <button 
+                  onClick={onExplainError}
+                  className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded text-sm transition-colors"
+               >
+                  Ask AI to Explain This Error
+               </button>
+            )}
+          </div>
         </div>
       </div>
     );
@@ -95,6 +179,14 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ result, error, onExplainErr
       }
   }
 
+  const handleSort = (column: string) => {
+      setSort(prev => {
+          if (!prev || prev.column !== column) return { column, direction: 'asc' };
+          if (prev.direction === 'asc') return { column, direction: 'desc' };
+          return null; // Third click restores Oracle's order
+      });
+  };
+
   // Filter Logic
   const filteredRows = result.rows.filter(row => {
     if (!searchTerm) return true;
@@ -113,6 +205,14 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ result, error, onExplainErr
     return valueMatch || columnMatch;
   });
 
+  // Sort Logic (type-aware, stable copy so the original order is kept in state)
+  const sortedRows = sort && result.columns.includes(sort.column)
+    ? [...filteredRows].sort((a, b) => {
+        const cmp = compareValues(a[sort.column], b[sort.column], columnTypes[sort.column] || 'text');
+        return sort.direction === 'asc' ? cmp : -cmp;
+      })
+    : filteredRows;
+
   return (
     <div className="flex flex-col h-full bg-[#1e1e1e]">
       <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700 bg-[#252525]">
@@ -157,9 +257,19 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ result, error, onExplainErr
         
         <div className="flex items-center gap-4">
             <div className="text-xs text-gray-500 font-mono">
-                {searchTerm ? `${filteredRows.length} / ` : ''} {result.rows.length} rows • {result.executionTimeMs}ms
+                {searchTerm ? `${filteredRows.length} / ` : ''} {result.rows.length}{result.paging?.hasMore ? '+' : ''} rows • {result.executionTimeMs}ms
             </div>
 
+            {onQueryLocally && result.columns.length > 0 && (
+                <button 
+                    onClick={onQueryLocally}
+                    className="flex items-center gap-1 text-xs bg-[#333] hover:bg-[#444] text-white px-3 py-1.5 rounded transition-colors"
+                    title="Load these rows into a local SQLite table and query them (GROUP BY, joins, window functions) without re-running on Oracle"
+                >
+                    <Database size={14} /> Query Locally
+                </button>
+            )}
+
             <div className="relative">
                 <button 
                     onClick={() => setShowExportMenu(!showExportMenu)}
@@ -193,6 +303,26 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ result, error, onExplainErr
         </div>
       </div>
       
+      {snapshot && (
+        <div className="px-4 py-1.5 border-b border-blue-800/50 bg-blue-900/20 text-blue-300 text-xs flex items-center gap-2">
+            <Camera size={12}/> Snapshot "{snapshot.name}" taken {new Date(snapshot.createdAt).toLocaleString()}. Offline copy: run the query to refresh it.
+        </div>
+      )}
+
+      {result.warnings && result.warnings.length > 0 && (
+        <div className="px-4 py-2 border-b border-orange-700/50 bg-orange-900/20 text-orange-300 text-xs font-mono max-h-24 overflow-y-auto space-y-0.5">
+            {result.warnings.map((w, i) => <div key={i} className="whitespace-pre-wrap break-all">{w}</div>)}
+        </div>
+      )}
+
+      {result.attempts && result.attempts.length > 1 && (
+        <AttemptLog
+            attempts={result.attempts}
+            summary={`Succeeded after ${result.attempts.length - 1} ${result.attempts.length === 2 ? 'retry' : 'retries'}`}
+            className="px-4 py-1.5 border-b border-gray-700 bg-[#181818] text-gray-400 max-h-32 overflow-y-auto"
+        />
+      )}
+      
       <div className="flex-1 overflow-auto relative">
         {view === TabView.TABLE ? (
             <table className="w-full text-left text-sm border-collapse">
@@ -203,20 +333,30 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ result, error, onExplainErr
                     <th 
                         key={col} 
                         ref={(el) => { headerRefs.current[col] = el; }}
-                        className="p-3 font-semibold text-gray-200 border-r border-gray-700 whitespace-nowrap min-w-[100px] bg-[#2a2a2a]"
+                        onClick={() => handleSort(col)}
+                        className={`p-3 font-semibold text-gray-200 border-r border-gray-700 whitespace-nowrap min-w-[100px] bg-[#2a2a2a] cursor-pointer select-none hover:bg-[#333] ${columnTypes[col] === 'number' ? 'text-right' : ''}`}
+                        title="Click to sort"
                     >
-                        {highlightText(col, searchTerm)}
+                        <span className="inline-flex items-center gap-1.5">
+                            {highlightText(col, searchTerm)}
+                            <span className="text-[9px] font-normal text-gray-500 uppercase">{TYPE_BADGES[columnTypes[col] || 'text']}</span>
+                            {sort?.column === col && (sort.direction === 'asc' ? <ArrowUp size={12} className="text-[#eab308]"/> : <ArrowDown size={12} className="text-[#eab308]"/>)}
+                        </span>
                     </th>
                 ))}
                 </tr>
             </thead>
             <tbody className="divide-y divide-gray-800 text-gray-300">
-                {filteredRows.length > 0 ? filteredRows.map((row, idx) => (
+                {sortedRows.length > 0 ? sortedRows.map((row, idx) => (
                 <tr key={idx} className="hover:bg-white/5 transition-colors group">
                     <td className="p-2 text-center text-gray-600 border-r border-gray-700 text-xs bg-[#1e1e1e] group-hover:bg-[#252525] sticky left-0">{idx + 1}</td>
                     {result.columns.map((col) => (
-                    <td key={col} className="p-2 border-r border-gray-700 whitespace-nowrap overflow-hidden text-ellipsis max-w-xs" title={row[col]}>
-                        {highlightText(row[col] || '', searchTerm)}
+                    <td 
+                        key={col} 
+                        className={`p-2 border-r border-gray-700 whitespace-nowrap overflow-hidden text-ellipsis max-w-xs ${columnTypes[col] === 'number' ? 'text-right tabular-nums' : ''} ${columnTypes[col] === 'boolean' ? 'text-center' : ''}`} 
+                        title={row[col]}
+                    >
+                        {highlightText(formatValue(row[col], columnTypes[col] || 'text', displayFormat), searchTerm)}
                     </td>
                     ))}
                 </tr>
@@ -228,6 +368,38 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ result, error, onExplainErr
                     </tr>
                 )}
             </tbody>
+            {result.paging?.hasMore && onLoadMore && (
+                <tfoot>
+                    <tr>
+                        <td colSpan={result.columns.length + 1} className="p-3 text-center border-t border-gray-700">
+                            <div className="sticky left-4 inline-flex flex-col items-center gap-2">
+                                <div className="inline-flex items-center gap-2">
+                                    <button 
+                                        onClick={onLoadMore}
+                                        disabled={isLoadingMore}
+                                        className="px-4 py-1.5 bg-[#333] hover:bg-[#444] text-gray-200 rounded text-xs font-semibold inline-flex items-center gap-2 disabled:opacity-50"
+                                    >
+                                        {isLoadingMore 
+                                            ? <><Loader2 size={12} className="animate-spin" /> Loading...</> 
+                                            : `${loadMoreError ? 'Retry loading' : 'Load'} next ${result.paging.pageSize} rows`}
+                                    </button>
+                                    {isLoadingMore && onStop && (
+                                        <button onClick={onStop} className="px-3 py-1.5 bg-red-900/40 hover:bg-red-900/60 text-red-300 rounded text-xs font-semibold inline-flex items-center gap-1.5">
+                                            <Square size={10} fill="currentColor" /> Stop
+                                        </button>
+                                    )}
+                                </div>
+                                {loadMoreError && (
+                                    <div className="max-w-2xl text-xs font-mono text-red-400 whitespace-pre-wrap break-all">{loadMoreError}</div>
+                                )}
+                                {isUnordered && !loadMoreError && (
+                                    <div className="text-[11px] text-orange-300">No ORDER BY: the next page comes from a new run and may repeat or skip rows.</div>
+                                )}
+                            </div>
+                        </td>
+                    </tr>
+                </tfoot>
+            )}
             </table>
         ) : (
             <pre className="p-4 text-xs font-mono text-green-400 whitespace-pre-wrap selection:bg-green-900 selection:text-white">
@@ -9,7 +9,7 @@ interface SavedQueriesModalProps {
   currentQuery: string;
   onSaveQuery: (newQuery: SavedQuery) => void;
   onDeleteQuery: (id: string) => void;
-  onLoadQuery: (query: string) => void;
+  onLoadQuery: (query: SavedQuery) => void;
 }
 
 const generateId = () => Math.random().toString(36).substring(2) + Date.now().toString(36);
@@ -92,7 +92,7 @@ const SavedQueriesModal: React.FC<SavedQueriesModalProps> = ({
                                         </div>
                                         <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                                             <button 
-                                                onClick={() => { onLoadQuery(q.query); onClose(); }}
+                                                onClick={() => { onLoadQuery(q); onClose(); }}
                                                 className="p-1.5 bg-blue-900/30 text-blue-400 rounded hover:bg-blue-900/50"
                                                 title="Load into Editor"
                                             >
@@ -0,0 +1,105 @@
+import React from 'react';
+import { ConnectionConfig, ScheduledRun } from '../types';
+import { isRunPending } from '../services/scheduleService';
+import { X, Clock, Loader2, FolderOpen, RefreshCw, Ban, Trash2 } from 'lucide-react';
+
+interface ScheduledRunsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  runs: ScheduledRun[]; // Runs of the active connection
+  connection: ConnectionConfig;
+  pollingIds: string[]; // Runs currently polled in this browser tab
+  onOpen: (run: ScheduledRun) => void;
+  onResume: (run: ScheduledRun) => void;
+  onCancel: (run: ScheduledRun) => void;
+  onDelete: (run: ScheduledRun) => void;
+}
+
+const STATUS_STYLES: Record<ScheduledRun['status'], string> = {
+  submitted: 'text-gray-400',
+  running: 'text-[#eab308]',
+  completed: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+const ScheduledRunsModal: React.FC<ScheduledRunsModalProps> = ({
+  isOpen, onClose, runs, connection, pollingIds, onOpen, onResume, onCancel, onDelete
+}) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-[#1e1e1e] w-[720px] max-h-[80vh] rounded-xl shadow-2xl border border-gray-700 flex flex-col overflow-hidden">
+
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-[#252525]">
+            <h2 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
+                <Clock size={20}/> Scheduled Runs <span className="text-sm font-normal text-gray-500">• {connection.name || 'No connection'}</span>
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+            {runs.length === 0 ? (
+                <div className="text-center text-gray-500 py-8 text-sm">
+                    No scheduled runs for this connection. Use "Run Async" to submit a long query through the ScheduleService.
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    {runs.map(run => {
+                        const pending = isRunPending(run);
+                        const polling = pollingIds.includes(run.id);
+                        return (
+                            <div key={run.id} className="bg-[#2a2a2a] border border-gray-700 rounded p-3">
+                                <div className="flex justify-between items-start gap-4">
+                                    <div className="min-w-0">
+                                        <div className="font-semibold text-gray-200 truncate">{run.name}</div>
+                                        <div className="text-xs text-gray-500">
+                                            Job {run.jobId} • {new Date(run.submittedAt).toLocaleString()}
+                                            {run.completedAt && ` • ${Math.round((run.completedAt - run.submittedAt) / 1000)}s`}
+                                        </div>
+                                    </div>
+                                    <div className="flex gap-2 shrink-0">
+                                        {run.status === 'completed' && (
+                                            <button onClick={() => onOpen(run)} className="p-1.5 bg-[#333] text-[#eab308] rounded hover:bg-[#444]" title="Open result in the current tab">
+                                                <FolderOpen size={14}/>
+                                            </button>
+                                        )}
+                                        {(pending || run.status === 'failed') && !polling && (
+                                            <button onClick={() => onResume(run)} className="p-1.5 bg-[#333] text-gray-300 rounded hover:bg-[#444]" title="Check the job status again">
+                                                <RefreshCw size={14}/>
+                                            </button>
+                                        )}
+                                        {pending && (
+                                            <button onClick={() => onCancel(run)} className="p-1.5 bg-[#333] text-gray-300 rounded hover:bg-[#444]" title="Cancel the job on the server">
+                                                <Ban size={14}/>
+                                            </button>
+                                        )}
+                                        <button onClick={() => onDelete(run)} className="p-1.5 bg-red-900/30 text-red-400 rounded hover:bg-red-900/50" title="Remove from this list">
+                                            <Trash2 size={14}/>
+                                        </button>
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-3 mt-2 text-xs">
+                                    <span className={`flex items-center gap-1 font-semibold uppercase ${STATUS_STYLES[run.status]}`}>
+                                        {polling && <Loader2 size={12} className="animate-spin" />}
+                                        {run.status}
+                                    </span>
+                                    {run.serverStatus && <span className="text-gray-500 font-mono">server: {run.serverStatus}</span>}
+                                    {run.rowCount !== undefined && <span className="text-gray-400 font-mono">{run.rowCount.toLocaleString()} rows</span>}
+                                </div>
+                                {run.error && (
+                                    <div className="mt-2 text-[11px] font-mono p-2 rounded bg-red-900/30 text-red-400 whitespace-pre-wrap break-all">{run.error}</div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduledRunsModal;
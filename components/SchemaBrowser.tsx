@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ConnectionConfig, SchemaCacheInfo, SchemaColumn, SchemaObject } from '../types';
+import { getSchemaCacheInfo, searchSchemaObjects } from '../services/dbService';
+import { refreshSchemaObjects, loadTableColumns, loadViewDefinition } from '../services/schemaService';
+import { QueryAbortedError } from '../services/errors';
+import { hasCredentials } from '../services/authService';
+import { X, Search, RefreshCw, ChevronRight, ChevronDown, Table2, Eye, Loader2, Square, Code } from 'lucide-react';
+
+interface SchemaBrowserProps {
+  config: ConnectionConfig;
+  onClose: () => void;
+}
+
+interface ExpandedState {
+  loading: boolean;
+  columns?: SchemaColumn[];
+  viewText?: string;
+  showViewText?: boolean;
+  error?: string;
+}
+
+// Only the first matches are rendered; the search narrows the rest down
+const RESULT_LIMIT = 300;
+
+const objectKey = (obj: SchemaObject) => `${obj.owner}.${obj.name}.${obj.type}`;
+
+const SchemaBrowser: React.FC<SchemaBrowserProps> = ({ config, onClose }) => {
+  const [search, setSearch] = useState('');
+  const [owner, setOwner] = useState('');
+  const [cacheInfo, setCacheInfo] = useState<SchemaCacheInfo | null>(null);
+  const [objects, setObjects] = useState<SchemaObject[]>([]);
+  const [expanded, setExpanded] = useState<Record<string, ExpandedState>>({});
+  const [refreshProgress, setRefreshProgress] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const refreshController = useRef<AbortController | null>(null);
+
+  // 1. Load cache info when the connection changes
+  useEffect(() => {
+    setExpanded({});
+    setError('');
+    getSchemaCacheInfo(config.id).then(info => {
+      setCacheInfo(info);
+      setOwner(info.owner);
+    });
+    return () => refreshController.current?.abort();
+  }, [config.id]);
+
+  // 2. Search the cached objects
+  useEffect(() => {
+    if (!cacheInfo) return;
+    searchSchemaObjects(config.id, search.trim(), RESULT_LIMIT).then(setObjects);
+  }, [config.id, search, cacheInfo]);
+
+  const handleRefresh = async () => {
+    const controller = new AbortController();
+    refreshController.current = controller;
+    setError('');
+    setRefreshProgress(0);
+    try {
+      await refreshSchemaObjects(config, owner, setRefreshProgress, controller.signal);
+      setExpanded({});
+      setCacheInfo(await getSchemaCacheInfo(config.id));
+    } catch (err: any) {
+      if (!(err instanceof QueryAbortedError && err.reason === 'cancelled')) {
+        setError(err.message || 'Failed to load metadata.');
+      }
+    } finally {
+      refreshController.current = null;
+      setRefreshProgress(null);
+    }
+  };
+
+  const updateExpanded = (key: string, updates: Partial<ExpandedState>) => {
+    setExpanded(prev => ({ ...prev, [key]: { ...prev[key], ...updates } }));
+  };
+
+  // Columns are only fetched the first time an object is expanded
+  const toggleObject = async (obj: SchemaObject) => {
+    const key = objectKey(obj);
+    if (expanded[key]) {
+      setExpanded(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      return;
+    }
+
+    updateExpanded(key, { loading: true });
+    try {
+      const columns = await loadTableColumns(config, obj);
+      updateExpanded(key, { loading: false, columns });
+    } catch (err: any) {
+      updateExpanded(key, { loading: false, error: err.message || 'Failed to load columns.' });
+    }
+  };
+
+  const toggleViewText = async (obj: SchemaObject) => {
+    const key = objectKey(obj);
+    const state = expanded[key];
+    if (state?.viewText !== undefined) {
+      updateExpanded(key, { showViewText: !state.showViewText });
+      return;
+    }
+    updateExpanded(key, { loading: true });
+    try {
+      const viewText = await loadViewDefinition(config, obj);
+      updateExpanded(key, { loading: false, viewText, showViewText: true });
+    } catch (err: any) {
+      updateExpanded(key, { loading: false, error: err.message || 'Failed to load view definition.' });
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent, text: string) => {
+    e.dataTransfer.setData('text/plain', text);
+    e.dataTransfer.effectAllowed = 'copy';
+  };
+
+  const isRefreshing = refreshProgress !== null;
+
+  return (
+    <div className="w-72 flex flex-col bg-[#181818] border-r border-gray-800 z-10 min-h-0">
+      <div className="flex justify-between items-center px-3 h-12 border-b border-gray-700 shrink-0">
+        <h2 className="text-sm font-semibold text-gray-200 flex items-center gap-2">
+          <Table2 size={16}/> Schema
+        </h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={16} /></button>
+      </div>
+
+      <div className="p-3 space-y-2 border-b border-gray-700 shrink-0">
+        <div className="relative">
+          <Search size={12} className="absolute left-2 top-2.5 text-gray-500"/>
+          <input
+            type="text"
+            className="w-full bg-[#252525] border border-gray-600 rounded pl-7 pr-2 py-1.5 text-xs text-white focus:border-[#eab308] outline-none font-mono"
+            placeholder="Search tables and views..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            className="flex-1 min-w-0 bg-[#252525] border border-gray-600 rounded px-2 py-1 text-xs text-white focus:border-[#eab308] outline-none font-mono uppercase"
+            placeholder="Owner (all)"
+            title="Only load objects of this owner, e.g. FUSION. Leave empty for every owner."
+            value={owner}
+            onChange={(e) => setOwner(e.target.value)}
+            disabled={isRefreshing}
+          />
+          {isRefreshing ? (
+            <button
+              onClick={() => refreshController.current?.abort()}
+              className="px-2 py-1 bg-red-600 hover:bg-red-500 text-white rounded text-xs flex items-center gap-1"
+              title="Stop loading"
+            >
+              <Square size={10} fill="currentColor"/> Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleRefresh}
+              disabled={!hasCredentials(config)}
+              className="px-2 py-1 bg-[#333] hover:bg-[#444] text-gray-300 rounded text-xs flex items-center gap-1 disabled:opacity-50"
+              title="Load tables and views from ALL_OBJECTS"
+            >
+              <RefreshCw size={12}/> {cacheInfo?.fetchedAt ? 'Refresh' : 'Load'}
+            </button>
+          )}
+        </div>
+        <div className="text-[10px] text-gray-500">
+          {isRefreshing
+            ? <span className="flex items-center gap-1"><Loader2 size={10} className="animate-spin"/> Loading... {refreshProgress!.toLocaleString()} objects</span>
+            : cacheInfo?.fetchedAt
+              ? `${cacheInfo.objectCount.toLocaleString()} objects${cacheInfo.owner ? ` in ${cacheInfo.owner}` : ''} • cached ${new Date(cacheInfo.fetchedAt).toLocaleString()}`
+              : 'Metadata not loaded for this connection yet.'}
+        </div>
+        {error && (
+          <div className="text-[10px] font-mono p-2 rounded bg-red-900/30 text-red-400 whitespace-pre-wrap break-all max-h-24 overflow-y-auto">{error}</div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-1 text-xs font-mono">
+        {objects.length === 0 && cacheInfo?.fetchedAt && (
+          <div className="text-center text-gray-500 py-6 font-sans">No matching objects.</div>
+        )}
+        {objects.map(obj => {
+          const key = objectKey(obj);
+          const state = expanded[key];
+          const isView = obj.type === 'VIEW';
+          return (
+            <div key={key}>
+              <div
+                draggable
+                onDragStart={(e) => handleDragStart(e, `${obj.owner}.${obj.name}`)}
+                onClick={() => toggleObject(obj)}
+                className="group flex items-center gap-1 px-2 py-1 cursor-pointer hover:bg-white/5 text-gray-300"
+                title={`${obj.owner}.${obj.name} (${obj.type}) - drag into the editor`}
+              >
+                {state ? <ChevronDown size={12} className="shrink-0 text-gray-500"/> : <ChevronRight size={12} className="shrink-0 text-gray-500"/>}
+                {isView ? <Eye size={12} className="shrink-0 text-purple-400"/> : <Table2 size={12} className="shrink-0 text-[#eab308]"/>}
+                <span className="truncate flex-1">{obj.name}</span>
+                {state?.loading && <Loader2 size={10} className="animate-spin text-gray-500"/>}
+                {isView && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); toggleViewText(obj); }}
+                    className="opacity-0 group-hover:opacity-100 p-0.5 rounded hover:bg-white/10 text-gray-400"
+                    title="Show view definition"
+                  >
+                    <Code size={10}/>
+                  </button>
+                )}
+              </div>
+
+              {state?.error && (
+                <div className="ml-6 mr-2 my-1 text-[10px] p-1.5 rounded bg-red-900/30 text-red-400 whitespace-pre-wrap break-all">{state.error}</div>
+              )}
+
+              {state?.showViewText && (
+                <pre
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, state.viewText || '')}
+                  className="ml-6 mr-2 my-1 p-2 bg-[#111] border border-gray-700 rounded text-[10px] text-gray-400 whitespace-pre-wrap break-all max-h-48 overflow-y-auto"
+                >
+                  {state.viewText || '-- No definition available'}
+                </pre>
+              )}
+
+              {state?.columns?.map(col => (
+                <div
+                  key={col.name}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, col.name)}
+                  className="flex items-center gap-2 pl-9 pr-2 py-0.5 hover:bg-white/5 cursor-grab"
+                  title={`${col.name} ${col.dataType}${col.nullable ? '' : ' NOT NULL'}`}
+                >
+                  <span className="truncate flex-1 text-gray-300">{col.name}</span>
+                  <span className={`shrink-0 text-[10px] ${col.nullable ? 'text-gray-500' : 'text-gray-400'}`}>{col.dataType}</span>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+        {objects.length === RESULT_LIMIT && (
+          <div className="text-center text-[10px] text-gray-500 py-2 font-sans">Showing the first {RESULT_LIMIT} matches. Refine the search.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SchemaBrowser;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { ScriptStatementResult } from '../types';
+import { CheckCircle2, XCircle, Loader2, MinusCircle, Clock, Ban } from 'lucide-react';
+
+interface ScriptResultsBarProps {
+  statements: ScriptStatementResult[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+}
+
+const statusIcon = (status: ScriptStatementResult['status']) => {
+  switch (status) {
+    case 'success': return <CheckCircle2 size={12} className="text-green-400" />;
+    case 'error': return <XCircle size={12} className="text-red-400" />;
+    case 'running': return <Loader2 size={12} className="animate-spin text-[#eab308]" />;
+    case 'cancelled': return <Ban size={12} className="text-gray-400" />;
+    case 'timeout': return <Clock size={12} className="text-orange-400" />;
+    default: return <MinusCircle size={12} className="text-gray-600" />;
+  }
+};
+
+/**
+ * Strip of sub-result tabs shown above the grid when a tab was run as a script.
+ */
+const ScriptResultsBar: React.FC<ScriptResultsBarProps> = ({ statements, activeIndex, onSelect }) => {
+  const succeeded = statements.filter(s => s.status === 'success').length;
+  const failed = statements.filter(s => s.status === 'error' || s.status === 'timeout').length;
+  const totalMs = statements.reduce((sum, s) => sum + s.executionTimeMs, 0);
+
+  return (
+    <div className="h-8 bg-[#181818] border-b border-gray-700 flex items-center px-2 gap-1 overflow-x-auto shrink-0">
+        {statements.map((stmt, idx) => (
+            <button
+                key={idx}
+                onClick={() => onSelect(idx)}
+                title={stmt.sql}
+                className={`flex items-center gap-1.5 px-2 py-1 text-[11px] font-mono rounded whitespace-nowrap
+                    ${activeIndex === idx ? 'bg-[#2a2a2a] text-[#eab308]' : 'text-gray-400 hover:bg-[#252525] hover:text-gray-200'}
+                `}
+            >
+                {statusIcon(stmt.status)}
+                #{idx + 1}
+                {stmt.status !== 'pending' && stmt.status !== 'skipped' && stmt.status !== 'running' && (
+                    <span className="text-gray-500">{stmt.executionTimeMs}ms</span>
+                )}
+            </button>
+        ))}
+        <div className="ml-auto pl-4 text-[10px] text-gray-500 font-mono whitespace-nowrap">
+            {succeeded}/{statements.length} ok{failed > 0 ? ` • ${failed} failed` : ''} • {totalMs}ms
+        </div>
+    </div>
+  );
+};
+
+export default ScriptResultsBar;
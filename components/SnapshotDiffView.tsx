@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { SnapshotComparison } from '../types';
+import { GitCompare } from 'lucide-react';
+
+interface SnapshotDiffViewProps {
+  comparison: SnapshotComparison;
+  freshRowCount: number;
+}
+
+type Section = 'changed' | 'added' | 'removed';
+
+// Rows rendered per section; the counts above always cover everything
+const MAX_DISPLAY_ROWS = 500;
+
+const RowsTable: React.FC<{ columns: string[]; rows: Record<string, string>[]; className: string }> = ({ columns, rows, className }) => (
+  <table className="w-full text-left text-xs border-collapse font-mono">
+    <thead className="bg-[#2a2a2a] sticky top-0">
+      <tr>{columns.map(c => <th key={c} className="p-2 text-gray-400 border-b border-gray-700 whitespace-nowrap">{c}</th>)}</tr>
+    </thead>
+    <tbody>
+      {rows.slice(0, MAX_DISPLAY_ROWS).map((row, i) => (
+        <tr key={i} className={`border-b border-gray-800 ${className}`}>
+          {columns.map(c => <td key={c} className="p-2 whitespace-nowrap">{row[c]}</td>)}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+/**
+ * Differences between a fresh run and a snapshot (changed, added and removed rows).
+ */
+const SnapshotDiffView: React.FC<SnapshotDiffViewProps> = ({ comparison, freshRowCount }) => {
+  const { snapshot, diff } = comparison;
+  const [section, setSection] = useState<Section>(diff.changed.length > 0 ? 'changed' : diff.added.length > 0 ? 'added' : 'removed');
+
+  const rowColumns = (rows: Record<string, string>[]) => rows.length > 0 ? Object.keys(rows[0]) : [];
+  const sectionRows = section === 'added' ? diff.added : section === 'removed' ? diff.removed : diff.changed;
+  const tabs: { id: Section; label: string; count: number; color: string }[] = [
+    { id: 'changed', label: 'Changed', count: diff.changed.length, color: 'text-[#eab308]' },
+    { id: 'added', label: 'Added', count: diff.added.length, color: 'text-green-400' },
+    { id: 'removed', label: 'Removed', count: diff.removed.length, color: 'text-red-400' },
+  ];
+  const isIdentical = diff.changed.length === 0 && diff.added.length === 0 && diff.removed.length === 0;
+
+  return (
+    <div className="flex flex-col h-full bg-[#1e1e1e]">
+      <div className="px-4 py-2 border-b border-gray-700 bg-[#252525] text-xs text-gray-400 space-y-1">
+        <div className="flex items-center gap-2 text-gray-200">
+          <GitCompare size={14}/>
+          Compared with snapshot <span className="font-semibold">"{snapshot.name}"</span> of {new Date(snapshot.createdAt).toLocaleString()}
+        </div>
+        <div className="font-mono">
+          {snapshot.rowCount.toLocaleString()} rows then • {freshRowCount.toLocaleString()} rows now • {diff.unchangedCount.toLocaleString()} unchanged
+          {' • '}{diff.keyColumns.length > 0 ? `key: ${diff.keyColumns.join(', ')}` : 'matched on whole rows'}
+        </div>
+        {snapshot.isTruncated && (
+          <div className="text-orange-300">Partial snapshot: only the first {snapshot.rowCount.toLocaleString()} rows of each run are compared.</div>
+        )}
+        {(diff.columnsAdded.length > 0 || diff.columnsRemoved.length > 0) && (
+          <div className="text-orange-300">
+            {diff.columnsAdded.length > 0 && `New columns (not compared): ${diff.columnsAdded.join(', ')}. `}
+            {diff.columnsRemoved.length > 0 && `Columns gone since the snapshot: ${diff.columnsRemoved.join(', ')}.`}
+          </div>
+        )}
+      </div>
+
+      {isIdentical ? (
+        <div className="flex-1 flex items-center justify-center text-green-400 text-sm">
+          No differences: the fresh run returns the same rows as the snapshot.
+        </div>
+      ) : (
+        <>
+          <div className="flex gap-1 px-4 pt-2 border-b border-gray-700">
+            {tabs.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setSection(t.id)}
+                className={`px-3 py-1.5 text-xs rounded-t ${section === t.id ? 'bg-[#2a2a2a] text-white' : 'text-gray-500 hover:text-gray-300'}`}
+              >
+                {t.label} <span className={`font-mono ${t.color}`}>{t.count.toLocaleString()}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-auto">
+            {section === 'changed' ? (
+              <table className="w-full text-left text-xs border-collapse font-mono">
+                <thead className="bg-[#2a2a2a] sticky top-0">
+                  <tr>
+                    <th className="p-2 text-gray-400 border-b border-gray-700">{diff.keyColumns.length > 0 ? diff.keyColumns.join(' | ') : 'Row'}</th>
+                    <th className="p-2 text-gray-400 border-b border-gray-700">Column</th>
+                    <th className="p-2 text-gray-400 border-b border-gray-700">Snapshot</th>
+                    <th className="p-2 text-gray-400 border-b border-gray-700">Now</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.changed.slice(0, MAX_DISPLAY_ROWS).flatMap((row, i) => row.columns.map((column, j) => (
+                    <tr key={`${i}-${column}`} className="border-b border-gray-800">
+                      <td className="p-2 text-gray-300 whitespace-nowrap">{j === 0 ? row.key : ''}</td>
+                      <td className="p-2 text-gray-400 whitespace-nowrap">{column}</td>
+                      <td className="p-2 text-red-300 bg-red-900/10 whitespace-pre-wrap break-all">{row.before[column]}</td>
+                      <td className="p-2 text-green-300 bg-green-900/10 whitespace-pre-wrap break-all">{row.after[column]}</td>
+                    </tr>
+                  )))}
+                </tbody>
+              </table>
+            ) : (
+              <RowsTable
+                columns={rowColumns(sectionRows as Record<string, string>[])}
+                rows={sectionRows as Record<string, string>[]}
+                className={section === 'added' ? 'text-green-300' : 'text-red-300'}
+              />
+            )}
+            {sectionRows.length > MAX_DISPLAY_ROWS && (
+              <div className="p-3 text-center text-xs text-gray-500">Showing the first {MAX_DISPLAY_ROWS} of {sectionRows.length.toLocaleString()}.</div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotDiffView;
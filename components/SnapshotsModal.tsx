@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { ConnectionConfig, ResultSnapshot } from '../types';
+import { getSnapshotResult } from '../services/dbService';
+import { X, Camera, FolderOpen, GitCompare, Trash2, Pin, Loader2 } from 'lucide-react';
+
+interface SnapshotsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  snapshots: ResultSnapshot[];
+  connections: ConnectionConfig[];
+  pinnableRows: number | null; // Rows of the active tab's result, null when there is nothing to pin
+  pinDisabledReason: string; // Shown when pinnableRows is null
+  isPinTruncated: boolean; // The active result has more rows than were fetched
+  defaultName: string;
+  onPin: (name: string) => Promise<void>;
+  onOpen: (snapshot: ResultSnapshot) => void;
+  onCompare: (snapshot: ResultSnapshot, keyColumns: string[]) => void;
+  onDelete: (snapshot: ResultSnapshot) => void;
+}
+
+const SnapshotsModal: React.FC<SnapshotsModalProps> = ({
+  isOpen, onClose, snapshots, connections, pinnableRows, pinDisabledReason, isPinTruncated, defaultName, onPin, onOpen, onCompare, onDelete
+}) => {
+  const [mode, setMode] = useState<'LIST' | 'PIN'>('LIST');
+  const [name, setName] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isPinning, setIsPinning] = useState(false);
+  // Compare form of one snapshot: its columns (loaded on demand) and the chosen key columns
+  const [comparing, setComparing] = useState<{ id: string; columns: string[] | null; keys: string[] } | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode('LIST');
+      setSearchTerm('');
+      setComparing(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const connectionName = (id: string) => connections.find(c => c.id === id)?.name || (id === 'temp' ? 'Temporary' : 'Deleted connection');
+
+  const handlePin = async () => {
+    if (!name.trim()) return;
+    setIsPinning(true);
+    try {
+      await onPin(name.trim());
+      setMode('LIST');
+    } finally {
+      setIsPinning(false);
+    }
+  };
+
+  const startCompare = async (snapshot: ResultSnapshot) => {
+    setComparing({ id: snapshot.id, columns: null, keys: [] });
+    const result = await getSnapshotResult(snapshot.id);
+    setComparing(prev => prev?.id === snapshot.id ? { ...prev, columns: result?.columns || [] } : prev);
+  };
+
+  const toggleKey = (column: string) => {
+    setComparing(prev => prev && {
+      ...prev,
+      keys: prev.keys.includes(column) ? prev.keys.filter(k => k !== column) : [...prev.keys, column]
+    });
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filtered = snapshots.filter(s => s.name.toLowerCase().includes(term) || s.query.toLowerCase().includes(term));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-[#1e1e1e] w-[720px] max-h-[80vh] rounded-xl shadow-2xl border border-gray-700 flex flex-col overflow-hidden">
+
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-[#252525]">
+            <h2 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
+                {mode === 'LIST' ? <><Camera size={20}/> Result Snapshots</> : <><Pin size={20}/> Pin Result</>}
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+            {mode === 'PIN' ? (
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Name</label>
+                        <input
+                            className="w-full bg-[#252525] border border-gray-600 rounded p-2 text-white focus:border-[#eab308] outline-none"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handlePin()}
+                            placeholder="e.g. Payroll before data fix"
+                            autoFocus
+                        />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        Stores the {pinnableRows?.toLocaleString()} rows of the active tab with its SQL, connection and timestamp in the local database.
+                    </p>
+                    {isPinTruncated && (
+                        <p className="text-xs p-2 rounded bg-orange-900/30 text-orange-300">
+                            The query returned more rows than were fetched. The snapshot will be marked as partial and compared
+                            only with the first {pinnableRows?.toLocaleString()} rows of a fresh run. Load all pages first for a complete snapshot.
+                        </p>
+                    )}
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setMode('LIST')} className="px-4 py-2 text-gray-300 hover:text-white text-sm">Cancel</button>
+                        <button
+                            onClick={handlePin}
+                            disabled={!name.trim() || isPinning}
+                            className="bg-[#eab308] text-black px-4 py-2 rounded font-bold hover:bg-[#ca9a04] text-sm flex items-center gap-2 disabled:opacity-50"
+                        >
+                            {isPinning ? <Loader2 size={14} className="animate-spin"/> : <Pin size={14}/>} Pin Snapshot
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    <div className="flex gap-2 mb-4">
+                        <input
+                            type="text"
+                            placeholder="Search snapshots..."
+                            className="flex-1 bg-[#252525] border border-gray-600 rounded px-3 py-2 text-sm text-white focus:border-[#eab308] outline-none"
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                        />
+                        <button
+                            onClick={() => { setName(defaultName); setMode('PIN'); }}
+                            disabled={pinnableRows === null}
+                            className="bg-[#eab308] text-black px-4 py-2 rounded text-sm font-bold hover:bg-[#ca9a04] transition-colors flex items-center gap-2 disabled:opacity-50"
+                            title={pinnableRows === null ? pinDisabledReason : 'Store the active result as a snapshot'}
+                        >
+                            <Pin size={14}/> Pin Current Result
+                        </button>
+                    </div>
+
+                    {filtered.length === 0 ? (
+                        <div className="text-center text-gray-500 py-8 text-sm">
+                            {snapshots.length === 0 ? 'No snapshots yet. Pin a result to keep it as evidence.' : 'No snapshots match.'}
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            {filtered.map(snapshot => (
+                                <div key={snapshot.id} className="bg-[#2a2a2a] border border-gray-700 rounded p-3">
+                                    <div className="flex justify-between items-start gap-4">
+                                        <div className="min-w-0">
+                                            <div className="font-semibold text-gray-200 truncate">{snapshot.name}</div>
+                                            <div className="text-xs text-gray-500">
+                                                {new Date(snapshot.createdAt).toLocaleString()} • {connectionName(snapshot.connectionId)} • {snapshot.rowCount.toLocaleString()} rows
+                                                {snapshot.isTruncated && <span className="text-orange-300" title="More rows existed when it was pinned"> (partial)</span>}
+                                            </div>
+                                        </div>
+                                        <div className="flex gap-2 shrink-0">
+                                            <button onClick={() => onOpen(snapshot)} className="p-1.5 bg-[#333] text-[#eab308] rounded hover:bg-[#444]" title="Open in a new tab (offline)">
+                                                <FolderOpen size={14}/>
+                                            </button>
+                                            <button
+                                                onClick={() => comparing?.id === snapshot.id ? setComparing(null) : startCompare(snapshot)}
+                                                className={`p-1.5 rounded hover:bg-[#444] ${comparing?.id === snapshot.id ? 'bg-[#444] text-white' : 'bg-[#333] text-gray-300'}`}
+                                                title="Run the query again and compare"
+                                            >
+                                                <GitCompare size={14}/>
+                                            </button>
+                                            <button onClick={() => onDelete(snapshot)} className="p-1.5 bg-red-900/30 text-red-400 rounded hover:bg-red-900/50" title="Delete snapshot">
+                                                <Trash2 size={14}/>
+                                            </button>
+                                        </div>
+                                    </div>
+                                    <pre className="mt-2 text-xs text-gray-400 font-mono bg-[#1e1e1e] p-2 rounded max-h-16 overflow-hidden whitespace-pre-wrap break-all">{snapshot.query}</pre>
+
+                                    {comparing?.id === snapshot.id && (
+                                        <div className="mt-2 p-2 rounded border border-gray-700 bg-[#1e1e1e] space-y-2">
+                                            <div className="text-xs text-gray-400">
+                                                Key columns (rows with the same key are compared value by value; none = match whole rows):
+                                            </div>
+                                            {comparing.columns === null ? (
+                                                <Loader2 size={14} className="animate-spin text-gray-500"/>
+                                            ) : (
+                                                <div className="flex flex-wrap gap-1">
+                                                    {comparing.columns.map(column => (
+                                                        <button
+                                                            key={column}
+                                                            onClick={() => toggleKey(column)}
+                                                            className={`px-2 py-0.5 rounded text-[11px] font-mono border ${comparing.keys.includes(column)
+                                                                ? 'border-[#eab308] text-[#eab308] bg-[#eab308]/10'
+                                                                : 'border-gray-600 text-gray-400 hover:text-gray-200'}`}
+                                                        >
+                                                            {column}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            )}
+                                            <div className="flex justify-end">
+                                                <button
+                                                    onClick={() => onCompare(snapshot, comparing.keys)}
+                                                    className="bg-[#eab308] text-black px-3 py-1.5 rounded text-xs font-bold hover:bg-[#ca9a04] flex items-center gap-1.5"
+                                                >
+                                                    <GitCompare size={12}/> Run and Compare
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotsModal;
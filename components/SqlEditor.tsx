@@ -1,5 +1,8 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { AlignLeft, Search, ArrowUp, ArrowDown, X } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { AlignLeft, Search, ArrowUp, ArrowDown, X, Square, AlertTriangle } from 'lucide-react';
+import { findStatementAtOffset } from '../services/sqlParser';
+import { getCompletions, CompletionItem, CompletionKind } from '../services/completionService';
+import { ConnectionConfig, OracleErrorDetail } from '../types';
 
 // Declare globals
 declare const Prism: any;
@@ -8,8 +11,13 @@ declare const sqlFormatter: any;
 interface SqlEditorProps {
   value: string;
   onChange: (val: string) => void;
-  onRun: () => void;
+  onRun: (sql?: string, start?: number) => void; // sql = selection / statement under the caret (Ctrl+Enter), start = its offset
+  onStop?: () => void;
   isLoading: boolean;
+  warning?: string | null; // Pre-flight problem shown as a banner above the text
+  errorMarker?: OracleErrorDetail | null; // Last ORA error, marked in the gutter and underlined when it has an offset
+  errorJumpKey?: number; // Incremented by the parent to scroll to and select the error position
+  connection?: ConnectionConfig | null; // Source of cached schema metadata for autocomplete
 }
 
 interface SearchMatch {
@@ -17,7 +25,43 @@ interface SearchMatch {
   end: number;
 }
 
-const SqlEditor: React.FC<SqlEditorProps> = ({ value, onChange, onRun, isLoading }) => {
+interface CompletionPopup {
+  from: number;
+  to: number;
+  items: CompletionItem[];
+  index: number;
+  top: number;
+  left: number;
+}
+
+// Must match the .editor-layer metrics in index.html
+const LINE_HEIGHT = 21;
+const PADDING_TOP = 16;
+const PADDING_LEFT = 56;
+
+const KIND_STYLES: Record<CompletionKind, { badge: string; className: string }> = {
+  table: { badge: 'T', className: 'text-[#eab308]' },
+  view: { badge: 'V', className: 'text-purple-400' },
+  column: { badge: 'C', className: 'text-blue-400' },
+  alias: { badge: 'A', className: 'text-green-400' },
+  keyword: { badge: 'K', className: 'text-gray-400' },
+  function: { badge: 'F', className: 'text-orange-400' },
+};
+
+// Width of one character of the editor font (monospace), measured once
+let charWidth = 0;
+const getCharWidth = () => {
+  if (!charWidth) {
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (ctx) {
+      ctx.font = "14px 'Fira Code', 'Consolas', monospace";
+      charWidth = ctx.measureText('MMMMMMMMMM').width / 10;
+    }
+  }
+  return charWidth || 8.4;
+};
+
+const SqlEditor: React.FC<SqlEditorProps> = ({ value, onChange, onRun, onStop, isLoading, warning, errorMarker, errorJumpKey, connection }) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const preRef = useRef<HTMLPreElement>(null);
   const highlightsRef = useRef<HTMLDivElement>(null);
@@ -34,8 +78,34 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ value, onChange, onRun, isLoading
   // Selection Highlight State
   const [selectionWord, setSelectionWord] = useState('');
 
+  // Briefly highlighted range of the last Ctrl+Enter execution
+  const [flashRange, setFlashRange] = useState<SearchMatch | null>(null);
+  const flashTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(flashTimer.current), []);
+
+  // Autocomplete popup (null when closed); responses to outdated requests are dropped
+  const [completion, setCompletion] = useState<CompletionPopup | null>(null);
+  const completionRequest = useRef(0);
+  const completionListRef = useRef<HTMLDivElement>(null);
+
+  // Underlined range and 1-based line/column of the error position (the token starting there)
+  const errorRange = useMemo(() => {
+      if (errorMarker?.offset === undefined || value.length === 0) return null;
+      const start = Math.min(errorMarker.offset, value.length - 1);
+      const token = value.substring(start).match(/^\w+/);
+      const before = value.substring(0, start).split('\n');
+      return {
+          start,
+          end: start + (token ? token[0].length : 1),
+          line: before.length,
+          column: before[before.length - 1].length + 1,
+      };
+  }, [errorMarker, value]);
+
   // --- Scroll Sync ---
   const handleScroll = () => {
+    setCompletion(null);
     if (textareaRef.current && preRef.current && lineNumbersRef.current && highlightsRef.current) {
       const { scrollTop, scrollLeft } = textareaRef.current;
       preRef.current.scrollTop = scrollTop;
@@ -82,15 +152,17 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ value, onChange, onRun, isLoading
       if (matches.length === 0) return;
       const safeIndex = (index + matches.length) % matches.length;
       setCurrentMatchIdx(safeIndex);
-      
-      const match = matches[safeIndex];
+      revealRange(matches[safeIndex]);
+  };
+
+  const revealRange = (range: SearchMatch) => {
       if (textareaRef.current) {
           textareaRef.current.focus();
-          textareaRef.current.setSelectionRange(match.start, match.end);
+          textareaRef.current.setSelectionRange(range.start, range.end);
           // Blur and focus to force scroll if needed, or calculate scroll
           // Native behavior usually scrolls on selection change if focused
           // Force scroll attempt:
-          const textBefore = value.substring(0, match.start);
+          const textBefore = value.substring(0, range.start);
           const lines = textBefore.split('\n').length;
           const lineHeight = 21; // Approx 1.5 * 14px
           const targetTop = (lines - 1) * lineHeight;
@@ -101,6 +173,15 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ value, onChange, onRun, isLoading
       }
   };
 
+  const jumpToError = () => {
+      if (errorRange) revealRange(errorRange);
+  };
+
+  // --- Jump-to-Error requests from the results pane ---
+  useEffect(() => {
+      if (errorJumpKey) jumpToError();
+  }, [errorJumpKey]);
+
   // --- Selection Logic ---
   const handleSelect = () => {
       if (!textareaRef.current) return;
@@ -122,40 +203,169 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ value, onChange, onRun, isLoading
   const generateHighlightsHtml = useCallback(() => {
       // We need to wrap occurrences of `searchText` (yellow) and `selectionWord` (gray) in spans
       // Note: `searchText` takes precedence visually or we process them sequentially.
-      
-      let html = value
-          .replace(/&/g, "&amp;")
-          .replace(/</g, "&lt;")
-          .replace(/>/g, "&gt;");
-
-      const highlight = (term: string, className: string) => {
-          if (!term) return;
-          // Escape regex special chars
-          const esc = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-          const regex = new RegExp(`(${esc})`, 'gi');
-          html = html.replace(regex, `<span class="${className}">$1</span>`);
+      const decorate = (text: string) => {
+          let html = text
+              .replace(/&/g, "&amp;")
+              .replace(/</g, "&lt;")
+              .replace(/>/g, "&gt;");
+
+          const highlight = (term: string, className: string) => {
+              if (!term) return;
+              // Escape regex special chars
+              const esc = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+              const regex = new RegExp(`(${esc})`, 'gi');
+              html = html.replace(regex, `<span class="${className}">$1</span>`);
+          };
+
+          // Apply Selection Highlight first (Background)
+          if (selectionWord && selectionWord.length > 2 && selectionWord !== searchText) {
+              highlight(selectionWord, 'highlight-selection');
+          }
+
+          // Apply Search Highlight (Foreground/Important)
+          if (showSearch && searchText) {
+              highlight(searchText, 'highlight-match');
+          }
+          return html;
       };
 
-      // Apply Selection Highlight first (Background)
-      if (selectionWord && selectionWord.length > 2 && selectionWord !== searchText) {
-          highlight(selectionWord, 'highlight-selection');
-      }
+      // Wrap the executed range and the error token separately so term highlighting never matches inside the wrapper markup
+      const ranges = [
+          flashRange && { ...flashRange, className: 'highlight-flash' },
+          errorRange && { ...errorRange, className: 'highlight-error' },
+      ]
+          .filter((r): r is SearchMatch & { className: string } => !!r && r.end <= value.length)
+          .sort((a, b) => a.start - b.start);
 
-      // Apply Search Highlight (Foreground/Important)
-      if (showSearch && searchText) {
-          highlight(searchText, 'highlight-match');
-      }
+      let html = '';
+      let cursor = 0;
+      ranges.forEach(r => {
+          if (r.start < cursor) return; // Overlapping ranges: the earlier one wins
+          html += decorate(value.substring(cursor, r.start)) +
+              `<span class="${r.className}">${decorate(value.substring(r.start, r.end))}</span>`;
+          cursor = r.end;
+      });
+      html += decorate(value.substring(cursor));
       
       // Preserve newlines for alignment
       return html + (value.endsWith('\n') ? '<br>' : '');
-  }, [value, searchText, showSearch, selectionWord]);
+  }, [value, searchText, showSearch, selectionWord, flashRange, errorRange]);
+
+  // --- Run Selection / Statement Under Caret ---
+  const runAtCaret = () => {
+      const textarea = textareaRef.current;
+      if (!textarea) return onRun();
+
+      const { selectionStart, selectionEnd } = textarea;
+      let range: SearchMatch | null = null;
+      if (selectionStart !== selectionEnd && value.substring(selectionStart, selectionEnd).trim()) {
+          range = { start: selectionStart, end: selectionEnd };
+      } else {
+          const statement = findStatementAtOffset(value, selectionStart);
+          if (statement) range = { start: statement.start, end: statement.end };
+      }
+
+      if (!range) return onRun();
+
+      setFlashRange(range);
+      clearTimeout(flashTimer.current);
+      flashTimer.current = setTimeout(() => setFlashRange(null), 700);
+      onRun(value.substring(range.start, range.end), range.start);
+  };
+
+  // --- Autocomplete ---
+  const closeCompletion = () => {
+      completionRequest.current++;
+      setCompletion(null);
+  };
+
+  const requestCompletion = async (text: string, caret: number, explicit: boolean) => {
+      if (!connection?.id) return;
+      const requestId = ++completionRequest.current;
+      const result = await getCompletions(text, caret, connection, explicit);
+      if (requestId !== completionRequest.current) return;
+      if (!result) {
+          setCompletion(null);
+          return;
+      }
+
+      // Anchor the popup below the start of the word being completed
+      const lines = text.substring(0, result.from).split('\n');
+      const textarea = textareaRef.current;
+      setCompletion({
+          ...result,
+          index: 0,
+          top: PADDING_TOP + lines.length * LINE_HEIGHT - (textarea?.scrollTop || 0),
+          left: PADDING_LEFT + lines[lines.length - 1].length * getCharWidth() - (textarea?.scrollLeft || 0),
+      });
+  };
+
+  const acceptCompletion = (item: CompletionItem) => {
+      if (!completion) return;
+      const { from, to } = completion;
+      const newVal = value.substring(0, from) + item.insertText + value.substring(to);
+      closeCompletion();
+      onChange(newVal);
+      setTimeout(() => {
+        if (textareaRef.current) {
+            textareaRef.current.selectionStart = textareaRef.current.selectionEnd = from + item.insertText.length;
+        }
+      }, 0);
+  };
+
+  const handleInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+      onChange(e.target.value);
+      // Only typing identifier characters (or a qualifier dot) opens or refines the popup
+      const input = e.nativeEvent as InputEvent;
+      if (input.inputType === 'insertText' && input.data && /^[\w$#.]$/.test(input.data)) {
+          requestCompletion(e.target.value, e.target.selectionStart, false);
+      } else if (completion) {
+          closeCompletion();
+      }
+  };
+
+  useEffect(() => {
+      const active = completionListRef.current?.children[completion?.index ?? -1] as HTMLElement | undefined;
+      active?.scrollIntoView({ block: 'nearest' });
+  }, [completion?.index]);
 
   // --- Keyboard Handlers ---
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Autocomplete navigation takes precedence while the popup is open
+    if (completion && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      const count = completion.items.length;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setCompletion({ ...completion, index: (completion.index + step + count) % count });
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        acceptCompletion(completion.items[completion.index]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        closeCompletion();
+        return;
+      }
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') {
+        closeCompletion();
+      }
+    }
+
+    // Open Autocomplete
+    if (e.ctrlKey && e.key === ' ') {
+      e.preventDefault();
+      requestCompletion(value, e.currentTarget.selectionStart, true);
+      return;
+    }
+
     // Run Query
     if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
       e.preventDefault();
-      onRun();
+      if (!isLoading) runAtCaret(); // Same as the disabled Run button
     }
     
     // Open Search
@@ -200,7 +410,6 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ value, onChange, onRun, isLoading
   }
 
   const lineCount = value.split('\n').length;
-  const lineNumbers = Array.from({ length: lineCount }, (_, i) => i + 1).join('\n');
 
   return (
     <div className="flex flex-col h-full bg-[#1e1e1e] border-b border-gray-700 relative group">
@@ -226,8 +435,9 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ value, onChange, onRun, isLoading
 
            <div className="flex items-center gap-2">
                 <button
-                    onClick={onRun}
+                    onClick={() => onRun()}
                     disabled={isLoading}
+                    title="Run the whole editor. Ctrl+Enter runs the selection or the statement under the caret."
                     className={`px-4 py-1.5 rounded shadow-lg text-xs font-bold uppercase tracking-wider transition-all flex items-center gap-2
                         ${isLoading 
                         ? 'bg-gray-700 text-gray-400 cursor-wait' 
@@ -236,6 +446,15 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ value, onChange, onRun, isLoading
                 >
                     {isLoading ? 'Running...' : 'Run'} <span className="text-[9px] opacity-70 hidden sm:inline">(Ctrl+Enter)</span>
                 </button>
+                {isLoading && onStop && (
+                    <button
+                        onClick={onStop}
+                        className="px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white rounded shadow-lg text-xs font-bold uppercase tracking-wider flex items-center gap-2"
+                        title="Cancel the running query"
+                    >
+                        <Square size={10} fill="currentColor" /> Stop
+                    </button>
+                )}
            </div>
       </div>
 
@@ -272,11 +491,30 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ value, onChange, onRun, isLoading
           </div>
       )}
 
+      {/* Pre-flight Warning */}
+      {warning && (
+          <div className="flex items-start gap-2 px-4 py-1.5 pr-72 bg-orange-900/30 border-b border-orange-700/50 text-orange-300 text-xs">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+              <span>{warning}</span>
+          </div>
+      )}
+
       <div className="flex-1 relative font-mono text-sm overflow-hidden mt-1">
         
         {/* Line Numbers */}
         <div ref={lineNumbersRef} className="line-numbers text-gray-600 select-none">
-          {lineNumbers}
+          {Array.from({ length: lineCount }, (_, i) => i + 1 === errorRange?.line ? (
+              <div 
+                key={i}
+                className="gutter-error"
+                onClick={jumpToError}
+                title={`${errorMarker!.code}: ${errorMarker!.message} (line ${errorRange.line}, column ${errorRange.column})`}
+              >
+                {i + 1}
+              </div>
+          ) : (
+              <div key={i}>{i + 1}</div>
+          ))}
         </div>
 
         {/* Editor Container */}
@@ -302,15 +540,40 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ value, onChange, onRun, isLoading
                 ref={textareaRef}
                 className="editor-layer editor-textarea"
                 value={value}
-                onChange={(e) => onChange(e.target.value)}
+                onChange={handleInput}
                 onScroll={handleScroll}
                 onKeyDown={handleKeyDown}
+                onClick={() => completion && closeCompletion()}
+                onBlur={() => completion && closeCompletion()}
                 onSelect={handleSelect}
                 onDoubleClick={handleSelect}
                 spellCheck={false}
                 autoCapitalize="off"
                 autoComplete="off"
             />
+
+            {/* Layer 4: Autocomplete Popup */}
+            {completion && (
+                <div 
+                    ref={completionListRef}
+                    className="absolute z-40 w-80 max-h-56 overflow-y-auto bg-[#252525] border border-gray-600 rounded shadow-2xl py-1 font-mono text-xs"
+                    style={{ top: completion.top, left: completion.left }}
+                >
+                    {completion.items.map((item, i) => (
+                        <div 
+                            key={`${item.kind}:${item.label}`}
+                            // mousedown (not click) so the textarea does not blur and close the popup first
+                            onMouseDown={(e) => { e.preventDefault(); acceptCompletion(item); }}
+                            onMouseEnter={() => setCompletion({ ...completion, index: i })}
+                            className={`flex items-center gap-2 px-2 py-1 cursor-pointer ${i === completion.index ? 'bg-[#eab308]/20 text-white' : 'text-gray-300'}`}
+                        >
+                            <span className={`w-4 text-center font-bold shrink-0 ${KIND_STYLES[item.kind].className}`}>{KIND_STYLES[item.kind].badge}</span>
+                            <span className="truncate flex-1">{item.label}</span>
+                            {item.detail && <span className="text-[10px] text-gray-500 truncate max-w-[45%]">{item.detail}</span>}
+                        </div>
+                    ))}
+                </div>
+            )}
         </div>
       </div>
     </div>
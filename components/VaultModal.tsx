@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, KeyRound, Loader2 } from 'lucide-react';
+
+interface VaultModalProps {
+  isOpen: boolean;
+  mode: 'create' | 'unlock'; // 'create' when no passphrase has been set yet
+  onUnlock: (passphrase: string) => Promise<boolean>; // False for a wrong passphrase
+  onCreate: (passphrase: string) => Promise<void>; // New vault (also used to reset a forgotten passphrase)
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClass = "w-full bg-[#252525] border border-gray-600 rounded p-2 text-white focus:border-[#eab308] outline-none";
+
+const VaultModal: React.FC<VaultModalProps> = ({ isOpen, mode, onUnlock, onCreate }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isResetting, setIsResetting] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setPassphrase('');
+      setConfirmation('');
+      setIsResetting(false);
+      setError('');
+    }
+  }, [isOpen, mode]);
+
+  if (!isOpen) return null;
+
+  const isNew = mode === 'create' || isResetting;
+
+  const handleSubmit = async () => {
+    // 1. New passphrases are typed twice
+    if (isNew) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('The passphrases do not match.');
+        return;
+      }
+    }
+
+    // 2. Key derivation takes a moment (PBKDF2)
+    setIsBusy(true);
+    setError('');
+    try {
+      if (isNew) {
+        await onCreate(passphrase);
+      } else if (!await onUnlock(passphrase)) {
+        setError('Wrong passphrase.');
+        setPassphrase('');
+      }
+    } catch (e: any) {
+      setError(e.message || 'Failed to open the vault.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/90 backdrop-blur-sm">
+      <div className="bg-[#1e1e1e] w-[440px] rounded-xl shadow-2xl border border-gray-700 flex flex-col overflow-hidden">
+
+        <div className="p-4 border-b border-gray-700 bg-[#252525]">
+            <h2 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
+                {isNew ? <KeyRound size={20}/> : <Lock size={20}/>}
+                {mode === 'create' ? 'Set a Master Passphrase' : isResetting ? 'Reset Master Passphrase' : 'Unlock Connections'}
+            </h2>
+        </div>
+
+        <div className="p-4 space-y-3">
+            <p className="text-xs text-gray-400">
+                {mode === 'create'
+                    ? 'Connection passwords, tokens and keys are encrypted with this passphrase. It is never stored: keep it safe, it cannot be recovered.'
+                    : isResetting
+                        ? 'Stored passwords, tokens and keys cannot be decrypted without the old passphrase and will be cleared. Connections, queries and history are kept.'
+                        : 'Enter the master passphrase to decrypt the stored connection credentials.'}
+            </p>
+            <input
+                type="password"
+                className={inputClass}
+                placeholder={isNew ? 'New passphrase' : 'Passphrase'}
+                value={passphrase}
+                onChange={(e) => { setPassphrase(e.target.value); setError(''); }}
+                onKeyDown={(e) => e.key === 'Enter' && !isNew && handleSubmit()}
+                autoFocus
+            />
+            {isNew && (
+                <input
+                    type="password"
+                    className={inputClass}
+                    placeholder="Repeat the passphrase"
+                    value={confirmation}
+                    onChange={(e) => { setConfirmation(e.target.value); setError(''); }}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                />
+            )}
+            {error && (
+                <div className="text-xs font-mono p-2 rounded bg-red-900/30 text-red-400">{error}</div>
+            )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex items-center gap-2 bg-[#181818]">
+            {mode === 'unlock' && (
+                <button
+                    onClick={() => { setIsResetting(prev => !prev); setError(''); setPassphrase(''); setConfirmation(''); }}
+                    className="text-xs text-gray-500 hover:text-gray-300 mr-auto"
+                >
+                    {isResetting ? 'Back to unlock' : 'Forgot passphrase?'}
+                </button>
+            )}
+            <button
+                onClick={handleSubmit}
+                disabled={isBusy || !passphrase}
+                className={`${mode === 'unlock' ? '' : 'flex-1'} px-4 py-2 bg-[#eab308] text-black font-bold rounded hover:bg-[#ca9a04] flex items-center justify-center gap-2 disabled:opacity-50`}
+            >
+                {isBusy && <Loader2 size={14} className="animate-spin"/>}
+                {mode === 'create' ? 'Set Passphrase' : isResetting ? 'Reset and Clear Secrets' : 'Unlock'}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VaultModal;
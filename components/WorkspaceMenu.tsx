@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { WorkspaceSummary } from '../types';
+import { LayoutGrid, ChevronDown, Plus, Pencil, Trash2, Check } from 'lucide-react';
+
+interface WorkspaceMenuProps {
+  workspaces: WorkspaceSummary[];
+  activeId: string;
+  activeName: string;
+  keepResults: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void; // Renames the active workspace
+  onDelete: (id: string) => void;
+  onKeepResultsChange: (keep: boolean) => void;
+}
+
+const inputClass = "flex-1 min-w-0 bg-[#1e1e1e] border border-gray-600 rounded px-2 py-1 text-xs text-white focus:border-[#eab308] outline-none";
+
+const WorkspaceMenu: React.FC<WorkspaceMenuProps> = ({
+  workspaces, activeId, activeName, keepResults, onSwitch, onCreate, onRename, onDelete, onKeepResultsChange
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<'create' | 'rename' | null>(null);
+  const [name, setName] = useState('');
+
+  const close = () => {
+    setIsOpen(false);
+    setEditing(null);
+  };
+
+  const startEditing = (mode: 'create' | 'rename') => {
+    setEditing(mode);
+    setName(mode === 'rename' ? activeName : '');
+  };
+
+  const handleSubmit = () => {
+    if (!name.trim()) return;
+    if (editing === 'create') onCreate(name.trim());
+    else onRename(name.trim());
+    close();
+  };
+
+  const handleDelete = (ws: WorkspaceSummary) => {
+    if (!confirm(`Delete the workspace "${ws.name}" and its tabs?`)) return;
+    onDelete(ws.id);
+  };
+
+  return (
+    <div className="relative">
+        <button
+            onClick={() => (isOpen ? close() : setIsOpen(true))}
+            className="flex items-center gap-2 text-sm bg-[#2a2a2a] hover:bg-[#333] px-3 py-1.5 rounded border border-gray-700 transition-colors"
+            title="Workspace: a saved set of tabs"
+        >
+            <LayoutGrid size={14} className="text-gray-400"/>
+            <span className="font-medium text-gray-200 max-w-[160px] truncate">{activeName}</span>
+            <ChevronDown size={14} className="text-gray-500"/>
+        </button>
+
+        {isOpen && (
+            <>
+                <div className="fixed inset-0 z-10" onClick={close}></div>
+                <div className="absolute top-full left-0 mt-1 w-72 bg-[#2a2a2a] border border-gray-600 rounded-lg shadow-xl z-20 overflow-hidden">
+                    <div className="max-h-60 overflow-y-auto py-1">
+                        {workspaces.map(ws => (
+                            <div
+                                key={ws.id}
+                                className={`group flex items-center gap-2 px-4 py-2 text-sm hover:bg-[#333] cursor-pointer
+                                    ${ws.id === activeId ? 'text-[#eab308] bg-[#333]/50' : 'text-gray-300'}
+                                `}
+                                onClick={() => { close(); if (ws.id !== activeId) onSwitch(ws.id); }}
+                            >
+                                <div className="flex-1 truncate">{ws.name}</div>
+                                {workspaces.length > 1 && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleDelete(ws); }}
+                                        className="p-0.5 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                                        title="Delete workspace"
+                                    >
+                                        <Trash2 size={12}/>
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="border-t border-gray-600 p-2 bg-[#252525] space-y-2">
+                        {editing ? (
+                            <div className="flex gap-1">
+                                <input
+                                    className={inputClass}
+                                    placeholder={editing === 'create' ? 'e.g. GL close' : 'Workspace name'}
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') handleSubmit(); if (e.key === 'Escape') setEditing(null); }}
+                                    autoFocus
+                                />
+                                <button onClick={handleSubmit} disabled={!name.trim()} className="p-1 bg-[#eab308] text-black rounded hover:bg-[#ca9a04] disabled:opacity-50">
+                                    <Check size={14}/>
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="flex gap-2 text-xs">
+                                <button onClick={() => startEditing('create')} className="flex items-center gap-1 text-gray-400 hover:text-white">
+                                    <Plus size={12}/> New Workspace
+                                </button>
+                                <button onClick={() => startEditing('rename')} className="flex items-center gap-1 text-gray-400 hover:text-white ml-auto">
+                                    <Pencil size={12}/> Rename
+                                </button>
+                            </div>
+                        )}
+                        <label className="flex items-center gap-1.5 text-xs text-gray-400 cursor-pointer select-none" title="Results are stored in the local database (without raw XML)">
+                            <input
+                                type="checkbox"
+                                className="accent-[#eab308]"
+                                checked={keepResults}
+                                onChange={(e) => onKeepResultsChange(e.target.checked)}
+                            />
+                            Keep last results of this workspace
+                        </label>
+                    </div>
+                </div>
+            </>
+        )}
+    </div>
+  );
+};
+
+export default WorkspaceMenu;
@@ -1,19 +1,33 @@
 export const REPORT_SERVICE_PATH = "/xmlpserver/services/v2/ReportService";
+export const SCHEDULE_SERVICE_PATH = "/xmlpserver/services/v2/ScheduleService";
+export const CATALOG_SERVICE_PATH = "/xmlpserver/services/v2/CatalogService";
 
-export const DEFAULT_SOAP_TEMPLATE = `<!-- The template is now generated dynamically in soapService.ts based on SQL length -->
-<!-- This is just for reference or manual overrides -->
-<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:v2="http://xmlns.oracle.com/oxp/service/v2">
+// OBIEE analytics web services used by OTBI (logical SQL) connections
+export const OTBI_SESSION_SERVICE_PATH = "/analytics-ws/saw.dll?SoapImpl=nQSessionService";
+export const OTBI_XMLVIEW_SERVICE_PATH = "/analytics-ws/saw.dll?SoapImpl=xmlViewService";
+
+// Catalog path of the SQL runner report (its data model executes the decoded q1..q9 SQL)
+export const DEFAULT_REPORT_PATH = "/Custom/Human Capital Management/FusionSQLtoolTest1/FSTreport_2.xdo";
+
+// Output format requested from runReport; the results grid parses XML data
+export const DEFAULT_ATTRIBUTE_FORMAT = "xml";
+
+// runReport envelope. Placeholders: {{USERNAME}} {{PASSWORD}} {{PARAMETERS}} (required) and
+// {{REPORT_PATH}} {{ATTRIBUTE_FORMAT}} {{LOCALE}} {{TIMEZONE}}. An element holding only an
+// empty placeholder (e.g. no locale set) is left out of the request.
+export const DEFAULT_SOAP_TEMPLATE = `<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:v2="http://xmlns.oracle.com/oxp/service/v2">
    <soapenv:Header/>
    <soapenv:Body>
       <v2:runReport>
          <v2:reportRequest>
-            <v2:attributeFormat>xml</v2:attributeFormat>
+            <v2:attributeFormat>{{ATTRIBUTE_FORMAT}}</v2:attributeFormat>
+            <v2:attributeLocale>{{LOCALE}}</v2:attributeLocale>
+            <v2:attributeTimezone>{{TIMEZONE}}</v2:attributeTimezone>
             <v2:byPassCache>True</v2:byPassCache>
             <v2:flattenXML>True</v2:flattenXML>
-            <v2:reportAbsolutePath>/Custom/Human Capital Management/FusionSQLtoolTest1/FSTreport_2.xdo</v2:reportAbsolutePath>
+            <v2:reportAbsolutePath>{{REPORT_PATH}}</v2:reportAbsolutePath>
             <v2:parameterNameValues>
                <v2:listOfParamNameValues>
-                  <!-- Parameters q1 through q9 are injected here dynamically -->
                   {{PARAMETERS}}
                </v2:listOfParamNameValues>
             </v2:parameterNameValues>
@@ -24,6 +38,14 @@ export const DEFAULT_SOAP_TEMPLATE = `<!-- The template is now generated dynamic
    </soapenv:Body>
 </soapenv:Envelope>`;
 
+// Extra report parameter sent with "Gzip + Base64" encoding. The compressed data model
+// declares it next to q1..q9 and decodes the SQL with:
+//   CASE WHEN :enc = 'gzip'
+//     THEN UTL_RAW.CAST_TO_VARCHAR2(UTL_COMPRESS.LZ_UNCOMPRESS(UTL_ENCODE.BASE64_DECODE(UTL_RAW.CAST_TO_RAW(:q1 || :q2 || ... || :q9))))
+//     ELSE UTL_RAW.CAST_TO_VARCHAR2(UTL_ENCODE.BASE64_DECODE(UTL_RAW.CAST_TO_RAW(:q1 || :q2 || ... || :q9)))
+//   END
+export const COMPRESSION_PARAM = "enc";
+
 // The default URL is now just the base instance to simplify user input
 export const DEFAULT_URL = "https://xxxx.fa.ocs.oraclecloud.com";
 
@@ -0,0 +1,241 @@
+// Local mock of the BI Publisher v2 ReportService and ScheduleService SOAP endpoints,
+// plus the OTBI nQSessionService/XmlViewService calls used by logical SQL connections.
+// It is excluded from the frontend build via tsconfig.json.
+//
+// Usage: npm run mock   (or: MOCK_PORT=8089 MOCK_JOB_SECONDS=15 node mock-bip-server.js)
+// Then create a connection with URL http://localhost:8089, any username/password and no CORS proxy.
+//
+// - runReport / scheduleReport decode the q1..q9 (and gzip "enc") parameters like the real data model.
+// - Sample rows honour the paging wrapper (rownum <= N, OFFSET n ROWS FETCH NEXT m ROWS ONLY).
+// - SQL containing MOCK_ERROR fails with ORA-00904 and an "Error Position" pointing at it.
+// - SQL containing MOCK_FLAKY gets a 503 on its first MOCK_FLAKY_FAILURES runs (exercises retries).
+// - Scheduled jobs report "Running" for MOCK_JOB_SECONDS, then "Success".
+// - CatalogService lists a sample report (with two parameters) in every folder and accepts uploads.
+// - POST /oauth2/v1/token issues bearer tokens valid for MOCK_TOKEN_SECONDS; requests using an
+//   expired mock token get a 401 (other bearer tokens are accepted).
+
+import http from 'node:http';
+import zlib from 'node:zlib';
+
+const PORT = parseInt(process.env.MOCK_PORT || '8089', 10);
+const JOB_SECONDS = parseInt(process.env.MOCK_JOB_SECONDS || '15', 10);
+const TOKEN_SECONDS = parseInt(process.env.MOCK_TOKEN_SECONDS || '300', 10);
+const FLAKY_FAILURES = parseInt(process.env.MOCK_FLAKY_FAILURES || '2', 10);
+const SAMPLE_ROWS = 250;
+
+const jobs = new Map(); // jobId -> { createdAt, sql, cancelled }
+let nextJobId = 1000;
+const tokens = new Map(); // access token -> expiry (ms)
+const flakyRuns = new Map(); // MOCK_FLAKY sql -> runs so far
+
+// --- Request Decoding ---
+
+const readParameters = (body) => {
+  const params = {};
+  const regex = /<(?:\w+:)?name>([^<]+)<\/(?:\w+:)?name>\s*<(?:\w+:)?values>\s*<(?:\w+:)?item>([^<]*)<\/(?:\w+:)?item>/g;
+  let match;
+  while ((match = regex.exec(body)) !== null) {
+    params[match[1].trim()] = match[2].trim();
+  }
+  return params;
+};
+
+const decodeSql = (params) => {
+  const encoded = Array.from({ length: 9 }, (_, i) => params[`q${i + 1}`] || '').join('');
+  const bytes = Buffer.from(encoded, 'base64');
+  return (params.enc === 'gzip' ? zlib.gunzipSync(bytes) : bytes).toString('utf8');
+};
+
+const readTag = (body, tag) => {
+  const match = body.match(new RegExp(`<(?:\\w+:)?${tag}>([^<]*)<\\/(?:\\w+:)?${tag}>`));
+  return match ? match[1].trim() : '';
+};
+
+// --- Sample Data ---
+
+const pageWindow = (sql) => {
+  const rownum = sql.match(/rownum <= (\d+)\s*$/i);
+  if (rownum) return { offset: 0, limit: parseInt(rownum[1], 10) };
+  const fetch = sql.match(/OFFSET (\d+) ROWS FETCH NEXT (\d+) ROWS ONLY\s*$/i);
+  if (fetch) return { offset: parseInt(fetch[1], 10), limit: parseInt(fetch[2], 10) };
+  return { offset: 0, limit: SAMPLE_ROWS };
+};
+
+const buildDataXml = (sql) => {
+  const { offset, limit } = pageWindow(sql);
+  const rows = [];
+  for (let i = offset; i < Math.min(SAMPLE_ROWS, offset + limit); i++) {
+    rows.push(`<G_1><PERSON_NUMBER>${100000 + i}</PERSON_NUMBER><FIRST_NAME>First${i}</FIRST_NAME>` +
+      `<LAST_NAME>Last${i}</LAST_NAME><HIRE_DATE>2020-01-${String((i % 28) + 1).padStart(2, '0')}T00:00:00.000+00:00</HIRE_DATE>` +
+      `<SALARY>${(50000 + i * 125.5).toFixed(2)}</SALARY></G_1>`);
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?><DATA_DS>${rows.join('')}</DATA_DS>`;
+};
+
+const oraError = (sql) => {
+  const position = sql.search(/\bMOCK_ERROR\b/i);
+  if (position === -1) return null;
+  return `ORA-00904: "MOCK_ERROR": invalid identifier\n\nError Position: ${position}`;
+};
+
+// --- SOAP Responses ---
+
+const envelope = (content) => `<?xml version="1.0" encoding="UTF-8"?>
+<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:ns2="http://xmlns.oracle.com/oxp/service/v2">
+  <soapenv:Body>${content}</soapenv:Body>
+</soapenv:Envelope>`;
+
+const fault = (message) => envelope(`<soapenv:Fault><faultcode>soapenv:Server</faultcode><faultstring>${message
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</faultstring></soapenv:Fault>`);
+
+const jobStatus = (job) => {
+  if (job.cancelled) return { status: 'Canceled' };
+  if (Date.now() - job.createdAt < JOB_SECONDS * 1000) return { status: 'Running' };
+  const error = oraError(job.sql);
+  return error ? { status: 'Failed', detail: error } : { status: 'Success' };
+};
+
+const handleOperation = (operation, body) => {
+  switch (operation) {
+    case 'runReport': {
+      const sql = decodeSql(readParameters(body));
+      if (/\bMOCK_FLAKY\b/i.test(sql)) {
+        const runs = (flakyRuns.get(sql) || 0) + 1;
+        flakyRuns.set(sql, runs);
+        if (runs <= FLAKY_FAILURES) return { status: 503, xml: 'Service Unavailable' };
+      }
+      const error = oraError(sql);
+      if (error) return { status: 500, xml: fault(`oracle.xdo.XDOException: java.sql.SQLSyntaxErrorException: ${error}`) };
+      const bytes = Buffer.from(buildDataXml(sql)).toString('base64');
+      return { xml: envelope(`<ns2:runReportResponse><ns2:runReportReturn><ns2:reportBytes>${bytes}</ns2:reportBytes></ns2:runReportReturn></ns2:runReportResponse>`) };
+    }
+    case 'scheduleReport': {
+      const jobId = String(nextJobId++);
+      jobs.set(jobId, { createdAt: Date.now(), sql: decodeSql(readParameters(body)), cancelled: false });
+      return { xml: envelope(`<ns2:scheduleReportResponse><ns2:scheduleReportReturn>${jobId}</ns2:scheduleReportReturn></ns2:scheduleReportResponse>`) };
+    }
+    case 'getScheduledReportStatus': {
+      const job = jobs.get(readTag(body, 'scheduledJobID'));
+      if (!job) return { status: 500, xml: fault('Job not found') };
+      const { status, detail } = jobStatus(job);
+      return { xml: envelope(`<ns2:getScheduledReportStatusResponse><ns2:getScheduledReportStatusReturn><ns2:jobStatus>${status}</ns2:jobStatus>` +
+        `${detail ? `<ns2:statusDetail>${detail}</ns2:statusDetail>` : ''}</ns2:getScheduledReportStatusReturn></ns2:getScheduledReportStatusResponse>`) };
+    }
+    case 'getAllJobInstanceIDs': {
+      const jobId = readTag(body, 'scheduledJobID');
+      return { xml: envelope(`<ns2:getAllJobInstanceIDsResponse><ns2:getAllJobInstanceIDsReturn><ns2:item>${jobId}1</ns2:item></ns2:getAllJobInstanceIDsReturn></ns2:getAllJobInstanceIDsResponse>`) };
+    }
+    case 'getScheduledReportOutputInfo': {
+      const instanceId = readTag(body, 'jobInstanceID');
+      return { xml: envelope(`<ns2:getScheduledReportOutputInfoResponse><ns2:getScheduledReportOutputInfoReturn><ns2:jobOutputList><ns2:item>` +
+        `<ns2:outputId>${instanceId}1</ns2:outputId><ns2:status>Success</ns2:status></ns2:item></ns2:jobOutputList></ns2:getScheduledReportOutputInfoReturn></ns2:getScheduledReportOutputInfoResponse>`) };
+    }
+    case 'getDocumentData': {
+      // outputId = jobId + "1" (instance) + "1" (output)
+      const job = jobs.get(readTag(body, 'jobOutputID').slice(0, -2));
+      if (!job) return { status: 500, xml: fault('Output not found') };
+      const bytes = Buffer.from(buildDataXml(job.sql)).toString('base64');
+      return { xml: envelope(`<ns2:getDocumentDataResponse><ns2:getDocumentDataReturn>${bytes}</ns2:getDocumentDataReturn></ns2:getDocumentDataResponse>`) };
+    }
+    case 'deleteScheduledReport': {
+      const job = jobs.get(readTag(body, 'scheduledJobID'));
+      if (job) job.cancelled = true;
+      return { xml: envelope(`<ns2:deleteScheduledReportResponse><ns2:deleteScheduledReportReturn>${!!job}</ns2:deleteScheduledReportReturn></ns2:deleteScheduledReportResponse>`) };
+    }
+    case 'getFolderContents': {
+      // One folder with the sample report inside, under any requested path
+      const folder = readTag(body, 'folderAbsolutePath').replace(/\/$/, '');
+      const item = (name, type) => `<ns2:item><ns2:absolutePath>${folder}/${name}</ns2:absolutePath><ns2:displayName>${name.replace(/\.xdo$/, '')}</ns2:displayName>` +
+        `<ns2:owner>mock</ns2:owner><ns2:type>${type}</ns2:type></ns2:item>`;
+      return { xml: envelope(`<ns2:getFolderContentsResponse><ns2:getFolderContentsReturn><ns2:catalogContents>` +
+        `${item('Custom', 'Folder')}${item('Sample Workers.xdo', 'Report')}</ns2:catalogContents></ns2:getFolderContentsReturn></ns2:getFolderContentsResponse>`) };
+    }
+    case 'getReportParameters':
+      return { xml: envelope(`<ns2:getReportParametersResponse><ns2:getReportParametersReturn>` +
+        `<ns2:item><ns2:dataType>String</ns2:dataType><ns2:label>Department</ns2:label><ns2:name>P_DEPT</ns2:name><ns2:multiValuesAllowed>true</ns2:multiValuesAllowed>` +
+        `<ns2:defaultValue><ns2:item>10</ns2:item></ns2:defaultValue><ns2:lovLabels><ns2:item>Sales</ns2:item><ns2:item>Finance</ns2:item></ns2:lovLabels>` +
+        `<ns2:values><ns2:item>10</ns2:item><ns2:item>20</ns2:item></ns2:values></ns2:item>` +
+        `<ns2:item><ns2:dataType>Date</ns2:dataType><ns2:dateFormatString>yyyy-MM-dd</ns2:dateFormatString><ns2:label>As Of</ns2:label><ns2:name>P_AS_OF</ns2:name>` +
+        `<ns2:multiValuesAllowed>false</ns2:multiValuesAllowed></ns2:item></ns2:getReportParametersReturn></ns2:getReportParametersResponse>`) };
+    case 'createFolder':
+      return { xml: envelope(`<ns2:createFolderResponse><ns2:createFolderReturn>${readTag(body, 'folderAbsolutePath')}</ns2:createFolderReturn></ns2:createFolderResponse>`) };
+    case 'uploadObject': {
+      const path = readTag(body, 'reportObjectAbsolutePathURL');
+      console.log(`  uploaded ${readTag(body, 'objectType')} ${path} (${Buffer.from(readTag(body, 'objectZippedData'), 'base64').length} bytes)`);
+      return { xml: envelope(`<ns2:uploadObjectResponse><ns2:uploadObjectReturn>${path}</ns2:uploadObjectReturn></ns2:uploadObjectResponse>`) };
+    }
+    case 'logon':
+      return { xml: envelope(`<sawsoap:logonResult xmlns:sawsoap="urn://oracle.bi.webservices/v6"><sawsoap:sessionID>mock-session</sawsoap:sessionID></sawsoap:logonResult>`) };
+    case 'executeSQLQuery': {
+      // Logical SQL: two presentation columns, rows capped by maxRowsPerPage
+      const limit = parseInt(readTag(body, 'maxRowsPerPage') || '100', 10);
+      const rows = [];
+      for (let i = 0; i < Math.min(SAMPLE_ROWS, limit); i++) {
+        rows.push(`<Row><Column0>${100000 + i}</Column0><Column1>Last${i}, First${i}</Column1></Row>`);
+      }
+      const rowset = '<rowset xmlns="urn:schemas-microsoft-com:xml-analysis:rowset"><xsd:schema xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:saw-sql="urn:saw-sql">' +
+        '<xsd:complexType name="Row"><xsd:sequence>' +
+        '<xsd:element name="Column0" type="xsd:string" saw-sql:columnHeading="Person Number"/>' +
+        '<xsd:element name="Column1" type="xsd:string" saw-sql:columnHeading="Display Name"/>' +
+        `</xsd:sequence></xsd:complexType></xsd:schema>${rows.join('')}</rowset>`;
+      return { xml: envelope(`<sawsoap:executeSQLQueryResult xmlns:sawsoap="urn://oracle.bi.webservices/v6"><sawsoap:return><sawsoap:rowset>` +
+        `${rowset.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</sawsoap:rowset><sawsoap:queryID>mock-query</sawsoap:queryID>` +
+        `<sawsoap:finished>${limit > SAMPLE_ROWS}</sawsoap:finished></sawsoap:return></sawsoap:executeSQLQueryResult>`) };
+    }
+    case 'cancelQuery':
+      return { xml: envelope('<sawsoap:cancelQueryResult xmlns:sawsoap="urn://oracle.bi.webservices/v6"/>') };
+    default:
+      return { status: 500, xml: fault(`Operation not supported by the mock: ${operation || 'unknown'}`) };
+  }
+};
+
+// --- Server ---
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, SOAPAction, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    // OAuth token endpoint (client credentials or JWT bearer grant)
+    if (req.url.startsWith('/oauth2/v1/token')) {
+      const accessToken = `mock-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+      tokens.set(accessToken, Date.now() + TOKEN_SECONDS * 1000);
+      console.log(`${new Date().toISOString()} ${req.url} token -> 200 (${new URLSearchParams(body).get('grant_type')})`);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ access_token: accessToken, token_type: 'Bearer', expires_in: TOKEN_SECONDS }));
+      return;
+    }
+
+    const bearer = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/);
+    if (bearer && tokens.has(bearer[1]) && tokens.get(bearer[1]) < Date.now()) {
+      console.log(`${new Date().toISOString()} ${req.url} -> 401 (expired token)`);
+      res.writeHead(401, { 'Content-Type': 'text/plain' });
+      res.end('Token expired');
+      return;
+    }
+
+    // The operation is the first element inside soapenv:Body
+    const op = (body.match(/<(?:\w+:)?Body>\s*<(?:\w+:)?(\w+)/) || [])[1];
+    let response;
+    try {
+      response = handleOperation(op, body);
+    } catch (e) {
+      response = { status: 500, xml: fault(`Mock error: ${e.message}`) };
+    }
+    console.log(`${new Date().toISOString()} ${req.url} ${op} -> ${response.status || 200}`);
+    res.writeHead(response.status || 200, { 'Content-Type': 'text/xml;charset=UTF-8' });
+    res.end(response.xml);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock BI Publisher listening on http://localhost:${PORT} (scheduled jobs finish after ${JOB_SECONDS}s)`);
+});
@@ -0,0 +1,157 @@
+import { BatchProgress, BindValue, ConnectionConfig, QueryResult } from '../types';
+import { AuthRequiredError, QueryAbortedError } from './errors';
+import { executeQuery } from './queryService';
+import { findInLists, maskSqlLiterals, replaceBindVariable } from './sqlParser';
+import { inferColumnTypes } from './formatService';
+
+// Oracle rejects IN lists with more than 1000 expressions (ORA-01795)
+export const IN_LIST_LIMIT = 1000;
+
+export interface BatchPlan {
+  description: string;
+  itemCount: number;
+  batches: string[]; // One complete SQL statement per batch
+  warning?: string; // Set when merging the batches may not equal the single query
+}
+
+// Aggregates, DISTINCT and row limits are applied per batch, so the union of batches differs from the query
+const PER_BATCH_SEMANTICS = /\b(GROUP\s+BY|HAVING|DISTINCT|UNIQUE|ROWNUM|FETCH\s+(FIRST|NEXT))\b|\b(COUNT|SUM|AVG|MIN|MAX|LISTAGG|MEDIAN|STDDEV|VARIANCE)\s*\(/i;
+
+const NOT_IN_ERROR = 'NOT IN lists cannot be batched: each batch only excludes its own values, so the merged rows would include excluded ones.';
+
+/**
+ * Warning shown before and after a batch run when merging the batches may not equal the single query.
+ */
+export const getBatchWarning = (sql: string): string | undefined =>
+  PER_BATCH_SEMANTICS.test(maskSqlLiterals(sql))
+    ? 'The query aggregates, removes duplicates or limits rows. These apply to each batch separately, so the merged result can differ from a single run.'
+    : undefined;
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Builds batches from an oversized literal IN list already present in the SQL.
+ * Returns null when no list exceeds the limit.
+ */
+export const planInListBatches = (sql: string, batchSize = IN_LIST_LIMIT): BatchPlan | null => {
+  const oversized = findInLists(sql).filter(list => list.items.length > IN_LIST_LIMIT);
+  if (oversized.length === 0) return null;
+  if (oversized.length > 1) {
+    throw new Error(`Found ${oversized.length} IN lists over ${IN_LIST_LIMIT} values. Only one list can be batched per run.`);
+  }
+
+  const list = oversized[0];
+  if (list.negated) throw new Error(NOT_IN_ERROR);
+  const before = sql.substring(0, list.start);
+  const after = sql.substring(list.end);
+  return {
+    description: `IN list with ${list.items.length.toLocaleString()} values`,
+    itemCount: list.items.length,
+    batches: chunk(list.items, batchSize).map(items => `${before}${items.join(', ')}${after}`),
+    warning: getBatchWarning(sql),
+  };
+};
+
+/**
+ * Splits pasted text (one value per line, or comma/semicolon/tab separated) into distinct values.
+ * Spaces are kept: values such as names may contain them.
+ */
+export const parsePastedList = (text: string): string[] => {
+  const values = text.split(/[\r\n,;\t]+/).map(v => v.trim().replace(/^'(.*)'$/, '$1')).filter(v => v.length > 0);
+  return Array.from(new Set(values));
+};
+
+/**
+ * Builds batches by expanding a :NAME placeholder (used as `IN (:NAME)`) with chunks of pasted values.
+ */
+export const planPastedListBatches = (
+  sql: string,
+  bindName: string,
+  values: string[],
+  type: 'string' | 'number',
+  batchSize = IN_LIST_LIMIT
+): BatchPlan => {
+  if (values.length === 0) throw new Error('Paste at least one value to run a batch list.');
+  if (new RegExp(`\\bNOT\\s+IN\\s*\\(\\s*:${bindName}\\b`, 'i').test(maskSqlLiterals(sql))) throw new Error(NOT_IN_ERROR);
+
+  const literals = values.map(v => {
+    if (type === 'number') {
+      if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(v)) throw new Error(`"${v}" is not a number.`);
+      return v;
+    }
+    return `'${v.replace(/'/g, "''")}'`;
+  });
+
+  return {
+    description: `:${bindName.toUpperCase()} with ${values.length.toLocaleString()} pasted values`,
+    itemCount: values.length,
+    batches: chunk(literals, batchSize).map(items => replaceBindVariable(sql, bindName, items.join(', '))),
+    warning: getBatchWarning(sql),
+  };
+};
+
+/**
+ * Runs every batch sequentially and merges the rows into a single result.
+ * Failed batches are reported as warnings on the merged result instead of aborting the run;
+ * cancellation, timeouts and missing credentials stop the whole run.
+ */
+export const runBatchedQuery = async (
+  plan: BatchPlan,
+  config: ConnectionConfig,
+  rowLimit: number,
+  options: {
+    signal?: AbortSignal;
+    bindValues?: Record<string, BindValue>;
+    onProgress?: (progress: BatchProgress) => void;
+  } = {}
+): Promise<QueryResult> => {
+  const total = plan.batches.length;
+  const progress: BatchProgress = { completed: 0, total, errors: [] };
+  const columns: string[] = [];
+  const rows: Record<string, string>[] = [];
+  const warnings: string[] = plan.warning ? [plan.warning] : [];
+  let executionTimeMs = 0;
+
+  options.onProgress?.({ ...progress });
+
+  for (let i = 0; i < total; i++) {
+    try {
+      const page = await executeQuery(plan.batches[i], config, rowLimit, {
+        signal: options.signal,
+        bindValues: options.bindValues,
+      });
+      page.columns.forEach(col => { if (!columns.includes(col)) columns.push(col); });
+      rows.push(...page.rows);
+      executionTimeMs += page.executionTimeMs;
+      if (page.paging?.hasMore) {
+        warnings.push(`Batch ${i + 1}/${total} reached the row limit (${rowLimit}); some of its rows are missing.`);
+      }
+    } catch (err: any) {
+      // Every further batch would fail the same way: stop so the credentials prompt shows once
+      if (err instanceof QueryAbortedError || err instanceof AuthRequiredError) throw err;
+      progress.errors.push({ batch: i + 1, message: err.message || 'Unknown error occurred' });
+      warnings.push(`Batch ${i + 1}/${total} failed: ${err.message || 'Unknown error occurred'}`);
+    }
+
+    progress.completed = i + 1;
+    options.onProgress?.({ ...progress, errors: [...progress.errors] });
+  }
+
+  if (progress.errors.length === total) {
+    throw new Error(`All ${total} batches failed.\n\n${progress.errors.map(e => `Batch ${e.batch}: ${e.message}`).join('\n')}`);
+  }
+
+  return {
+    columns,
+    columnMeta: inferColumnTypes(columns, rows),
+    rows,
+    executionTimeMs,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  };
+};
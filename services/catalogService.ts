@@ -0,0 +1,120 @@
+import { CatalogItem, ConnectionConfig, QueryResult, ReportParameter } from '../types';
+import { CATALOG_SERVICE_PATH, REPORT_SERVICE_PATH } from '../constants';
+import { sendSoapRequest, buildServiceEnvelope, getElementText, parseReportOutput, escapeXml } from './soapService';
+import { EmptyOutputError } from './errors';
+
+// Direct child elements with the given local name (parameters nest <item> lists inside <item>)
+const childElements = (parent: Element, localName: string): Element[] =>
+  Array.from(parent.children).filter(el => el.localName === localName);
+
+const childText = (parent: Element, localName: string): string =>
+  (childElements(parent, localName)[0]?.textContent || '').trim();
+
+const childItems = (parent: Element, localName: string): string[] => {
+  const list = childElements(parent, localName)[0];
+  return list ? childElements(list, 'item').map(el => el.textContent || '') : [];
+};
+
+/**
+ * Lists the folders and objects of a catalog folder ('/' is the catalog root).
+ * Folders come first, then reports and other objects, each sorted by name.
+ */
+export const getFolderContents = async (config: ConnectionConfig, folderPath: string, signal?: AbortSignal): Promise<CatalogItem[]> => {
+  const doc = await sendSoapRequest(config, CATALOG_SERVICE_PATH, buildServiceEnvelope('getFolderContents',
+    `<v2:folderAbsolutePath>${escapeXml(folderPath)}</v2:folderAbsolutePath>`, config), signal);
+
+  const contents = doc.getElementsByTagNameNS('*', 'catalogContents')[0];
+  if (!contents) return [];
+
+  const items: CatalogItem[] = childElements(contents, 'item').map(el => ({
+    absolutePath: childText(el, 'absolutePath'),
+    displayName: childText(el, 'displayName') || childText(el, 'fileName'),
+    type: childText(el, 'type'),
+    owner: childText(el, 'owner') || undefined,
+    lastModified: childText(el, 'lastModified') || undefined,
+  }));
+
+  return items.sort((a, b) => {
+    const folderFirst = Number(b.type === 'Folder') - Number(a.type === 'Folder');
+    return folderFirst || a.displayName.localeCompare(b.displayName);
+  });
+};
+
+/**
+ * Reads the parameters of a report (labels, data types, defaults and lists of values).
+ */
+export const getReportParameters = async (config: ConnectionConfig, reportPath: string, signal?: AbortSignal): Promise<ReportParameter[]> => {
+  const doc = await sendSoapRequest(config, REPORT_SERVICE_PATH, buildServiceEnvelope('getReportParameters', `<v2:reportRequest>
+                    <v2:reportAbsolutePath>${escapeXml(reportPath)}</v2:reportAbsolutePath>
+                    <v2:sizeOfDataChunkDownload>-1</v2:sizeOfDataChunkDownload>
+                </v2:reportRequest>`, config), signal);
+
+  const list = doc.getElementsByTagNameNS('*', 'getReportParametersReturn')[0];
+  if (!list) return [];
+
+  return childElements(list, 'item').map(el => {
+    const values = childItems(el, 'values');
+    const labels = childItems(el, 'lovLabels');
+    const name = childText(el, 'name');
+    return {
+      name,
+      label: childText(el, 'label') || name,
+      dataType: childText(el, 'dataType') || 'String',
+      dateFormat: childText(el, 'dateFormatString') || undefined,
+      defaultValues: childItems(el, 'defaultValue').filter(v => v !== ''),
+      options: values.map((value, i) => ({ value, label: labels[i] || value })),
+      multiValuesAllowed: childText(el, 'multiValuesAllowed').toLowerCase() === 'true',
+    };
+  });
+};
+
+/**
+ * Runs an existing catalog report with the given parameter values and decodes its XML data
+ * like a SQL run. Report output has no server-side paging, so rows past `rowLimit` are dropped.
+ */
+export const runCatalogReport = async (
+  config: ConnectionConfig,
+  reportPath: string,
+  parameters: Record<string, string[]>,
+  rowLimit: number,
+  signal?: AbortSignal
+): Promise<QueryResult> => {
+  const startTime = performance.now();
+
+  // 1. Parameters without a value are left out so the report defaults apply
+  const parametersXml = Object.entries(parameters)
+    .filter(([, values]) => values.length > 0)
+    .map(([name, values]) => `<v2:item>
+                          <v2:name>${escapeXml(name)}</v2:name>
+                          <v2:values>${values.map(v => `<v2:item>${escapeXml(v)}</v2:item>`).join('')}</v2:values>
+                       </v2:item>`)
+    .join('');
+
+  // 2. Request the data (not the layout output) of the report
+  const doc = await sendSoapRequest(config, REPORT_SERVICE_PATH, buildServiceEnvelope('runReport', `<v2:reportRequest>
+                    <v2:attributeFormat>xml</v2:attributeFormat>
+                    <v2:byPassCache>True</v2:byPassCache>
+                    <v2:flattenXML>True</v2:flattenXML>
+                    <v2:reportAbsolutePath>${escapeXml(reportPath)}</v2:reportAbsolutePath>
+                    <v2:parameterNameValues>
+                       <v2:listOfParamNameValues>
+                          ${parametersXml}
+                       </v2:listOfParamNameValues>
+                    </v2:parameterNameValues>
+                </v2:reportRequest>`, config), signal);
+
+  const base64Data = getElementText(doc, 'reportBytes');
+  if (!base64Data) {
+    throw new EmptyOutputError("No 'reportBytes' found in response. The report produced no data or you lack permission to run it.");
+  }
+
+  // 3. Same decoding as SQL runs; no "Load More" since the report cannot be re-run for a page
+  const result = parseReportOutput(base64Data, rowLimit, 0, 'groups');
+  if (result.paging?.hasMore) {
+    result.warnings = [`Showing the first ${rowLimit.toLocaleString()} rows of the report output. Increase the row limit to see more.`];
+  }
+  delete result.paging;
+
+  result.executionTimeMs = Math.round(performance.now() - startTime);
+  return result;
+};
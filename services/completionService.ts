@@ -0,0 +1,225 @@
+import { ConnectionConfig, SchemaColumn, SchemaObject } from '../types';
+import { findStatementAtOffset, maskSqlLiterals } from './sqlParser';
+import { findSchemaObjectsByName, getSchemaColumns, searchSchemaObjects } from './dbService';
+import { loadTableColumns } from './schemaService';
+
+export type CompletionKind = 'table' | 'view' | 'column' | 'alias' | 'keyword' | 'function';
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionKind;
+  detail?: string; // Data type, owner or table shown next to the label
+  insertText: string;
+}
+
+export interface CompletionResult {
+  from: number; // Range of the prefix being replaced
+  to: number;
+  items: CompletionItem[];
+}
+
+const MAX_ITEMS = 50;
+
+export const ORACLE_KEYWORDS = [
+  'SELECT', 'FROM', 'WHERE', 'AND', 'OR', 'NOT', 'IN', 'EXISTS', 'BETWEEN', 'LIKE', 'IS', 'NULL',
+  'AS', 'DISTINCT', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'ON', 'USING',
+  'GROUP BY', 'ORDER BY', 'HAVING', 'UNION', 'UNION ALL', 'MINUS', 'INTERSECT', 'ASC', 'DESC',
+  'NULLS FIRST', 'NULLS LAST', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'WITH', 'CONNECT BY',
+  'START WITH', 'PRIOR', 'PARTITION BY', 'OVER', 'FETCH FIRST', 'ROWS ONLY', 'OFFSET', 'ROWNUM',
+  'SYSDATE', 'SYSTIMESTAMP', 'TRUNC', 'DUAL',
+];
+
+export const ORACLE_FUNCTIONS = [
+  'NVL', 'NVL2', 'COALESCE', 'DECODE', 'NULLIF', 'TO_CHAR', 'TO_DATE', 'TO_NUMBER', 'TO_TIMESTAMP',
+  'CAST', 'SUBSTR', 'INSTR', 'LENGTH', 'UPPER', 'LOWER', 'INITCAP', 'TRIM', 'LTRIM', 'RTRIM', 'LPAD',
+  'RPAD', 'REPLACE', 'REGEXP_LIKE', 'REGEXP_SUBSTR', 'REGEXP_REPLACE', 'CONCAT', 'ROUND', 'FLOOR',
+  'CEIL', 'ABS', 'MOD', 'GREATEST', 'LEAST', 'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'LISTAGG',
+  'ROW_NUMBER', 'RANK', 'DENSE_RANK', 'LAG', 'LEAD', 'ADD_MONTHS', 'MONTHS_BETWEEN', 'LAST_DAY',
+  'EXTRACT', 'SYS_CONTEXT',
+];
+
+// Words that end a FROM/JOIN item, so they are never taken for a table alias
+const CLAUSE_WORDS = new Set([
+  'WHERE', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'NATURAL', 'ON', 'USING',
+  'GROUP', 'ORDER', 'HAVING', 'UNION', 'MINUS', 'INTERSECT', 'CONNECT', 'START', 'FETCH', 'OFFSET',
+  'PARTITION', 'SAMPLE', 'FOR', 'WITH', 'SELECT', 'FROM', 'AS', 'MODEL', 'PIVOT', 'UNPIVOT',
+]);
+
+export interface TableReference {
+  owner?: string;
+  name?: string; // Undefined for inline views (subqueries)
+  alias?: string;
+}
+
+/**
+ * Finds the tables (with owner and alias) referenced after FROM/JOIN, including comma-separated lists.
+ */
+export const findTableReferences = (sql: string): TableReference[] => {
+  const masked = maskSqlLiterals(sql);
+  const tokens = masked.match(/[\w$#]+(?:\.[\w$#]+)?|[(),]/g) || [];
+  const refs: TableReference[] = [];
+
+  const isWord = (t?: string) => !!t && /^[\w$#]/.test(t);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const keyword = tokens[i].toUpperCase();
+    if (keyword !== 'FROM' && keyword !== 'JOIN') continue;
+
+    let j = i + 1;
+    while (j < tokens.length) {
+      const ref: TableReference = {};
+
+      // 1. Table name or inline view
+      if (tokens[j] === '(') {
+        let depth = 0;
+        for (; j < tokens.length; j++) {
+          if (tokens[j] === '(') depth++;
+          if (tokens[j] === ')' && --depth === 0) break;
+        }
+        j++;
+      } else if (isWord(tokens[j]) && !CLAUSE_WORDS.has(tokens[j].toUpperCase())) {
+        const parts = tokens[j].toUpperCase().split('.');
+        ref.name = parts.pop();
+        ref.owner = parts[0];
+        j++;
+      } else {
+        break;
+      }
+
+      // 2. Optional [AS] alias
+      if (tokens[j]?.toUpperCase() === 'AS') j++;
+      if (isWord(tokens[j]) && !tokens[j].includes('.') && !CLAUSE_WORDS.has(tokens[j].toUpperCase())) {
+        ref.alias = tokens[j].toUpperCase();
+        j++;
+      }
+
+      if (ref.name || ref.alias) refs.push(ref);
+
+      // 3. Comma-separated FROM list continues with another table
+      if (tokens[j] !== ',') break;
+      j++;
+    }
+  }
+
+  return refs;
+};
+
+/**
+ * Completion context of the caret: the word being typed, its `qualifier.` and whether a table name is expected.
+ */
+const getCaretContext = (sql: string, caret: number) => {
+  const before = sql.substring(0, caret);
+  const match = before.match(/(?:([\w$#]+)\.)?([\w$#]*)$/)!;
+  const prefix = match[2];
+  const from = caret - prefix.length;
+
+  const masked = maskSqlLiterals(before);
+  const head = masked.substring(0, from - (match[1] ? match[1].length + 1 : 0));
+  const expectsTable = /\b(FROM|JOIN|INTO|UPDATE|TABLE)\s+$/i.test(head) ||
+    (/,\s*$/.test(head) && /\bFROM\b(?![\s\S]*\b(WHERE|GROUP|ORDER|HAVING|SELECT|CONNECT)\b)/i.test(head));
+
+  return { prefix, qualifier: match[1]?.toUpperCase(), from, expectsTable };
+};
+
+// Lower-case inserts when the user types in lower case
+const matchCase = (text: string, prefix: string) =>
+  prefix && prefix === prefix.toLowerCase() && /[a-z]/.test(prefix) ? text.toLowerCase() : text;
+
+const startsWith = (label: string, prefix: string) => label.toUpperCase().startsWith(prefix.toUpperCase());
+
+const objectItem = (obj: SchemaObject, prefix: string): CompletionItem => ({
+  label: obj.name,
+  kind: obj.type === 'VIEW' ? 'view' : 'table',
+  detail: obj.owner,
+  insertText: matchCase(obj.name, prefix),
+});
+
+const columnItems = (columns: SchemaColumn[], prefix: string, table: string): CompletionItem[] =>
+  columns
+    .filter(c => startsWith(c.name, prefix))
+    .map(c => ({ label: c.name, kind: 'column', detail: `${c.dataType} • ${table}`, insertText: matchCase(c.name, prefix) }));
+
+/**
+ * Resolves the columns of a referenced table from the cached object list. Columns come from
+ * the cache only, unless `config` is given, in which case missing ones are fetched (and cached).
+ */
+const resolveColumns = async (connectionId: string, ref: TableReference, config?: ConnectionConfig): Promise<SchemaColumn[]> => {
+  if (!ref.name) return [];
+  const [obj] = await findSchemaObjectsByName(connectionId, ref.name, ref.owner);
+  if (!obj) return [];
+  const cached = await getSchemaColumns(connectionId, obj);
+  if (cached || !config) return cached || [];
+  try {
+    return await loadTableColumns(config, obj);
+  } catch (e) {
+    return [];
+  }
+};
+
+/**
+ * Builds the suggestions for the caret position. Returns null inside strings and comments,
+ * and when nothing matches. `explicit` (Ctrl+Space) allows an empty prefix.
+ */
+export const getCompletions = async (
+  sql: string,
+  caret: number,
+  config: ConnectionConfig,
+  explicit = false
+): Promise<CompletionResult | null> => {
+  // 1. No completion inside string literals or comments
+  const masked = maskSqlLiterals(sql);
+  if (caret > 0 && masked[caret - 1] !== sql[caret - 1]) return null;
+
+  const { prefix, qualifier, from, expectsTable } = getCaretContext(sql, caret);
+  if (!explicit && !qualifier && prefix.length === 0) return null;
+
+  // 2. Scope table references to the statement under the caret
+  const statement = findStatementAtOffset(sql, caret);
+  const refs = findTableReferences(statement ? statement.text : sql);
+  const items: CompletionItem[] = [];
+
+  if (qualifier) {
+    // 3a. alias.column / table.column, otherwise owner.table
+    const ref = refs.find(r => r.alias === qualifier) || refs.find(r => !r.alias && r.name === qualifier);
+    if (ref) {
+      items.push(...columnItems(await resolveColumns(config.id, ref, config), prefix, ref.name || qualifier));
+    } else {
+      const objects = await searchSchemaObjects(config.id, prefix, MAX_ITEMS, { owner: qualifier, prefix: true });
+      items.push(...objects.map(o => objectItem(o, prefix)));
+    }
+  } else if (expectsTable) {
+    // 3b. Table position: tables and views only
+    const objects = await searchSchemaObjects(config.id, prefix, MAX_ITEMS, { prefix: true });
+    items.push(...objects.map(o => objectItem(o, prefix)));
+  } else {
+    // 3c. Anywhere else: aliases, columns of referenced tables, functions, keywords, then tables
+    refs.filter(r => r.alias && startsWith(r.alias, prefix)).forEach(r => {
+      items.push({ label: r.alias!, kind: 'alias', detail: r.name || 'inline view', insertText: matchCase(r.alias!, prefix) });
+    });
+    for (const ref of refs) {
+      items.push(...columnItems(await resolveColumns(config.id, ref), prefix, ref.alias || ref.name || ''));
+    }
+    ORACLE_FUNCTIONS.filter(f => startsWith(f, prefix)).forEach(f => {
+      items.push({ label: f, kind: 'function', insertText: `${matchCase(f, prefix)}(` });
+    });
+    ORACLE_KEYWORDS.filter(k => startsWith(k, prefix)).forEach(k => {
+      items.push({ label: k, kind: 'keyword', insertText: matchCase(k, prefix) });
+    });
+    if (prefix.length > 0) {
+      const objects = await searchSchemaObjects(config.id, prefix, 20, { prefix: true });
+      items.push(...objects.map(o => objectItem(o, prefix)));
+    }
+  }
+
+  // 4. Drop duplicates (same column in several tables) and exact matches of the typed word
+  const seen = new Set<string>();
+  const unique = items.filter(item => {
+    const key = `${item.kind}:${item.label}`;
+    if (seen.has(key) || item.label.toUpperCase() === prefix.toUpperCase()) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (unique.length === 0) return null;
+  return { from, to: caret, items: unique.slice(0, MAX_ITEMS) };
+};
@@ -1,4 +1,6 @@
-import { ConnectionConfig, SavedQuery } from '../types';
+import { ConnectionConfig, ConnectionStatus, SavedQuery, ExtractionJob, SchemaObject, SchemaColumn, SchemaCacheInfo, ScheduledRun, QueryResult, HistoryItem, HistoryFilter, HistoryRetention, Workspace, WorkspaceSummary, ResultSnapshot } from '../types';
+
+import { sealSecrets, openSecrets, createVault, SECRET_FIELDS, ENCRYPTED_PREFIX, VaultMeta } from './vaultService';
 
 declare const initSqlJs: any;
 
@@ -7,12 +9,52 @@ const STORE_NAME = 'sqlite_store';
 const KEY_NAME = 'sqlite_binary';
 
 let db: any = null;
+let SQL: any = null; // sql.js module, kept to open scratch copies for exports
+// In-memory database for result sets queried locally. Kept apart from `db`: export() (run on every save)
+// closes and reopens the database, which would drop TEMP tables, and results must not reach backups.
+let scratchDb: any = null;
+
+// Columns persisted for each ConnectionConfig (order matters for INSERT statements)
+const CONNECTION_COLUMNS: (keyof ConnectionConfig)[] = [
+  'id', 'name', 'url', 'username', 'password', 'soapTemplate', 'corsProxy', 'timeoutSeconds', 'sqlEncoding', 'connectionType', 'reportPath',
+  'attributeFormat', 'locale', 'timezone',
+  'authMode', 'tokenSource', 'accessToken', 'tokenUrl', 'clientId', 'clientSecret', 'tokenScope', 'jwtPrivateKey', 'jwtKeyId', 'maxRetries', 'retryBaseDelayMs'
+];
+
+// Columns added after the initial schema. Applied to databases created by older versions.
+const COLUMN_MIGRATIONS: { table: string; column: string; type: string }[] = [
+  { table: 'connections', column: 'timeoutSeconds', type: 'INTEGER' },
+  { table: 'saved_queries', column: 'bindValues', type: 'TEXT' },
+  { table: 'connections', column: 'sqlEncoding', type: 'TEXT' },
+  { table: 'connections', column: 'connectionType', type: 'TEXT' },
+  { table: 'connections', column: 'reportPath', type: 'TEXT' },
+  { table: 'connections', column: 'attributeFormat', type: 'TEXT' },
+  { table: 'connections', column: 'locale', type: 'TEXT' },
+  { table: 'connections', column: 'timezone', type: 'TEXT' },
+  { table: 'connections', column: 'authMode', type: 'TEXT' },
+  { table: 'connections', column: 'tokenSource', type: 'TEXT' },
+  { table: 'connections', column: 'accessToken', type: 'TEXT' },
+  { table: 'connections', column: 'tokenUrl', type: 'TEXT' },
+  { table: 'connections', column: 'clientId', type: 'TEXT' },
+  { table: 'connections', column: 'clientSecret', type: 'TEXT' },
+  { table: 'connections', column: 'tokenScope', type: 'TEXT' },
+  { table: 'connections', column: 'jwtPrivateKey', type: 'TEXT' },
+  { table: 'connections', column: 'jwtKeyId', type: 'TEXT' },
+  { table: 'connections', column: 'maxRetries', type: 'INTEGER' },
+  { table: 'connections', column: 'retryBaseDelayMs', type: 'INTEGER' },
+  { table: 'result_snapshots', column: 'isTruncated', type: 'INTEGER' },
+];
+
+// Freed pages are zeroed, so replaced secrets do not linger in the file. Not persisted: applied again
+// after every export(), which reopens the database
+const SECURE_DELETE_SQL = 'PRAGMA secure_delete = ON';
 
 // --- Persistence Helpers (IndexedDB) ---
 
 const saveToDisk = async () => {
   if (!db) return;
   const binaryArray = db.export();
+  db.run(SECURE_DELETE_SQL);
   
   return new Promise<void>((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, 1);
@@ -63,13 +105,165 @@ const loadFromDisk = async (): Promise<Uint8Array | null> => {
   });
 };
 
+/**
+ * Runs one transaction against a standalone IndexedDB object store (data kept out of the SQLite file).
+ * Resolves with the result of the request returned by `run`, if any.
+ */
+const objectStoreRequest = <T,>(
+  dbName: string,
+  storeName: string,
+  keyPath: string | string[],
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(storeName, { keyPath });
+    };
+
+    request.onsuccess = () => {
+      const dbInstance = request.result;
+      const transaction = dbInstance.transaction(storeName, mode);
+      const operation = run(transaction.objectStore(storeName));
+
+      transaction.oncomplete = () => {
+        dbInstance.close();
+        resolve(operation ? operation.result : undefined);
+      };
+      transaction.onerror = () => {
+        dbInstance.close();
+        reject(`Failed to access the ${storeName} store`);
+      };
+    };
+
+    request.onerror = () => reject('Failed to open IndexedDB');
+  });
+
+// Tables added after the initial schema (created on fresh and upgraded databases alike)
+const ADDED_TABLES_SQL = `
+  CREATE TABLE IF NOT EXISTS vault (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    salt TEXT,
+    iterations INTEGER,
+    verifier TEXT
+  );
+  CREATE TABLE IF NOT EXISTS connection_status (
+    connectionId TEXT PRIMARY KEY,
+    checkedAt INTEGER,
+    status TEXT
+  );
+  CREATE TABLE IF NOT EXISTS extraction_jobs (
+    id TEXT PRIMARY KEY,
+    name TEXT,
+    connectionId TEXT,
+    query TEXT,
+    bindValues TEXT,
+    pageSize INTEGER,
+    status TEXT,
+    rowsFetched INTEGER,
+    nextOffset INTEGER,
+    columns TEXT,
+    exportFormat TEXT,
+    error TEXT,
+    createdAt INTEGER,
+    updatedAt INTEGER
+  );
+  CREATE TABLE IF NOT EXISTS schema_cache (
+    connectionId TEXT PRIMARY KEY,
+    owner TEXT,
+    fetchedAt INTEGER
+  );
+  CREATE TABLE IF NOT EXISTS schema_objects (
+    connectionId TEXT,
+    owner TEXT,
+    name TEXT,
+    type TEXT,
+    viewText TEXT,
+    PRIMARY KEY (connectionId, owner, name, type)
+  );
+  CREATE TABLE IF NOT EXISTS schema_columns (
+    connectionId TEXT,
+    owner TEXT,
+    tableName TEXT,
+    name TEXT,
+    dataType TEXT,
+    nullable INTEGER,
+    position INTEGER,
+    PRIMARY KEY (connectionId, owner, tableName, name)
+  );
+  CREATE TABLE IF NOT EXISTS scheduled_runs (
+    id TEXT PRIMARY KEY,
+    connectionId TEXT,
+    jobId TEXT,
+    name TEXT,
+    query TEXT,
+    bindValues TEXT,
+    rowLimit INTEGER,
+    status TEXT,
+    serverStatus TEXT,
+    error TEXT,
+    rowCount INTEGER,
+    submittedAt INTEGER,
+    completedAt INTEGER,
+    result TEXT
+  );
+  CREATE TABLE IF NOT EXISTS query_history (
+    id TEXT PRIMARY KEY,
+    connectionId TEXT,
+    query TEXT,
+    timestamp INTEGER,
+    status TEXT,
+    rowCount INTEGER,
+    durationMs INTEGER,
+    error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS query_history_timestamp ON query_history (timestamp);
+  CREATE TABLE IF NOT EXISTS result_snapshots (
+    id TEXT PRIMARY KEY,
+    name TEXT,
+    connectionId TEXT,
+    query TEXT,
+    savedQueryId TEXT,
+    bindValues TEXT,
+    createdAt INTEGER,
+    rowCount INTEGER,
+    isTruncated INTEGER,
+    result TEXT
+  );
+`;
+
+// --- Schema Migrations ---
+
+const migrateSchema = () => {
+  db.run(ADDED_TABLES_SQL);
+
+  COLUMN_MIGRATIONS.forEach(({ table, column, type }) => {
+    const info = db.exec(`PRAGMA table_info(${table})`);
+    if (info.length === 0) return; // Table missing: created lazily by the CRUD helpers
+    const existing = info[0].values.map((row: any[]) => row[1]);
+    if (!existing.includes(column)) {
+      db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+    }
+  });
+};
+
+const connectionValues = (conn: ConnectionConfig) =>
+  CONNECTION_COLUMNS.map(col => conn[col] ?? null);
+
+const connectionInsertSql = (verb: string) => `
+    ${verb} INTO connections (${CONNECTION_COLUMNS.join(', ')})
+    VALUES (${CONNECTION_COLUMNS.map(() => '?').join(', ')})
+  `;
+
 // --- Main Service ---
 
 export const initDB = async () => {
   if (db) return;
 
   try {
-    const SQL = await initSqlJs({
+    SQL = await initSqlJs({
       locateFile: (file: string) => `https://cdnjs.cloudflare.com/ajax/libs/sql.js/1.8.0/${file}`
     });
 
@@ -77,8 +271,11 @@ export const initDB = async () => {
 
     if (savedBinary) {
       db = new SQL.Database(savedBinary);
+      db.run(SECURE_DELETE_SQL);
+      migrateSchema();
     } else {
       db = new SQL.Database();
+      db.run(SECURE_DELETE_SQL);
       // Initialize Schema
       db.run(`
         CREATE TABLE IF NOT EXISTS connections (
@@ -88,15 +285,35 @@ export const initDB = async () => {
           username TEXT, 
           password TEXT, 
           soapTemplate TEXT, 
-          corsProxy TEXT
+          corsProxy TEXT,
+          timeoutSeconds INTEGER,
+          sqlEncoding TEXT,
+          connectionType TEXT,
+          reportPath TEXT,
+          attributeFormat TEXT,
+          locale TEXT,
+          timezone TEXT,
+          authMode TEXT,
+          tokenSource TEXT,
+          accessToken TEXT,
+          tokenUrl TEXT,
+          clientId TEXT,
+          clientSecret TEXT,
+          tokenScope TEXT,
+          jwtPrivateKey TEXT,
+          jwtKeyId TEXT,
+          maxRetries INTEGER,
+          retryBaseDelayMs INTEGER
         );
         CREATE TABLE IF NOT EXISTS saved_queries (
           id TEXT PRIMARY KEY, 
           name TEXT, 
           description TEXT, 
-          query TEXT
+          query TEXT,
+          bindValues TEXT
         );
       `);
+      migrateSchema();
       await saveToDisk();
     }
     console.log("SQLite Database Initialized");
@@ -108,23 +325,41 @@ export const initDB = async () => {
 
 // --- DB Sync / Blob Methods ---
 
+// Exports (Drive backups, downloads) are scrubbed on a copy: any secret not encrypted by the vault is dropped.
+// The copy is vacuumed so no freed page still holds an old plaintext value.
 export const getDatabaseBlob = (): Blob | null => {
     if (!db) return null;
-    const binary = db.export();
-    return new Blob([binary], { type: 'application/x-sqlite3' });
+    const copy = new SQL.Database(db.export());
+    db.run(SECURE_DELETE_SQL);
+    try {
+        copy.run(SECURE_DELETE_SQL);
+        if (copy.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'connections'").length > 0) {
+            SECRET_FIELDS.forEach(field => {
+                copy.run(`UPDATE connections SET ${field} = NULL WHERE ${field} IS NOT NULL AND ${field} NOT LIKE ?`, [`${ENCRYPTED_PREFIX}%`]);
+            });
+        }
+        copy.run('VACUUM');
+        return new Blob([copy.export()], { type: 'application/x-sqlite3' });
+    } finally {
+        copy.close();
+    }
 }
 
 export const overwriteDatabase = async (blob: Blob) => {
     const buffer = await blob.arrayBuffer();
     const u8 = new Uint8Array(buffer);
     
-    const SQL = await initSqlJs({
+    SQL = await initSqlJs({
       locateFile: (file: string) => `https://cdnjs.cloudflare.com/ajax/libs/sql.js/1.8.0/${file}`
     });
     
     // Replace DB instance
     if (db) db.close();
     db = new SQL.Database(u8);
+    db.run(SECURE_DELETE_SQL);
+    migrateSchema();
+    workspacesMigrated = false; // A backup from an earlier version may still hold them
+    extractionRowsMigrated = false;
     
     // Save new state to IndexedDB immediately
     await saveToDisk();
@@ -143,12 +378,12 @@ export const getConnections = async (): Promise<ConnectionConfig[]> => {
         result.push(stmt.getAsObject() as ConnectionConfig);
       }
       stmt.free();
-      return result;
+      return Promise.all(result.map(openSecrets));
   } catch (e) {
       // Create tables if missing
       db.run(`
         CREATE TABLE IF NOT EXISTS connections (
-          id TEXT PRIMARY KEY, name TEXT, url TEXT, username TEXT, password TEXT, soapTemplate TEXT, corsProxy TEXT
+          id TEXT PRIMARY KEY, name TEXT, url TEXT, username TEXT, password TEXT, soapTemplate TEXT, corsProxy TEXT, timeoutSeconds INTEGER, sqlEncoding TEXT, connectionType TEXT, reportPath TEXT, attributeFormat TEXT, locale TEXT, timezone TEXT, authMode TEXT, tokenSource TEXT, accessToken TEXT, tokenUrl TEXT, clientId TEXT, clientSecret TEXT, tokenScope TEXT, jwtPrivateKey TEXT, jwtKeyId TEXT, maxRetries INTEGER, retryBaseDelayMs INTEGER
         );
       `);
       return [];
@@ -157,10 +392,7 @@ export const getConnections = async (): Promise<ConnectionConfig[]> => {
 
 export const saveConnection = async (conn: ConnectionConfig) => {
   if (!db) await initDB();
-  db.run(`
-    INSERT OR REPLACE INTO connections (id, name, url, username, password, soapTemplate, corsProxy)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-  `, [conn.id, conn.name, conn.url, conn.username, conn.password, conn.soapTemplate, conn.corsProxy]);
+  db.run(connectionInsertSql('INSERT OR REPLACE'), connectionValues(await sealSecrets(conn)));
   await saveToDisk();
 };
 
@@ -170,20 +402,62 @@ export const deleteConnection = async (id: string) => {
   await saveToDisk();
 };
 
-export const updateAllConnections = async (conns: ConnectionConfig[]) => {
-  if (!db) await initDB();
+const replaceAllConnections = async (conns: ConnectionConfig[]) => {
+  // Encrypt first: a locked vault must not leave the table emptied
+  const sealed = await Promise.all(conns.map(sealSecrets));
   db.run("DELETE FROM connections");
   
-  conns.forEach(c => {
-    db.run(`
-      INSERT INTO connections (id, name, url, username, password, soapTemplate, corsProxy)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `, [c.id, c.name, c.url, c.username, c.password, c.soapTemplate, c.corsProxy]);
+  sealed.forEach(c => {
+    db.run(connectionInsertSql('INSERT'), connectionValues(c));
   });
-  
+};
+
+export const updateAllConnections = async (conns: ConnectionConfig[]) => {
+  if (!db) await initDB();
+  await replaceAllConnections(conns);
+  await saveToDisk();
+};
+
+// --- Connection Test Results ---
+
+export const getConnectionStatuses = async (): Promise<Record<string, ConnectionStatus>> => {
+  if (!db) await initDB();
+  const res = db.exec("SELECT connectionId, status FROM connection_status");
+  if (res.length === 0) return {};
+  return Object.fromEntries(res[0].values.map((row: any[]) => [row[0], JSON.parse(row[1])]));
+};
+
+export const saveConnectionStatus = async (status: ConnectionStatus) => {
+  if (!db) await initDB();
+  db.run("INSERT OR REPLACE INTO connection_status (connectionId, checkedAt, status) VALUES (?, ?, ?)",
+    [status.connectionId, status.checkedAt, JSON.stringify(status)]);
   await saveToDisk();
 };
 
+// --- Master Passphrase Vault ---
+
+export const getVaultMeta = async (): Promise<VaultMeta | null> => {
+  if (!db) await initDB();
+  const res = db.exec("SELECT salt, iterations, verifier FROM vault WHERE id = 1");
+  if (res.length === 0) return null;
+  const [salt, iterations, verifier] = res[0].values[0];
+  return { salt, iterations, verifier };
+};
+
+/**
+ * Creates a vault for the passphrase and re-encrypts every connection with its key, in one save.
+ * Secrets that cannot be decrypted (locked vault, forgotten passphrase) are dropped.
+ */
+export const rekeyVault = async (passphrase: string): Promise<VaultMeta> => {
+  const conns = await getConnections();
+  const meta = await createVault(passphrase);
+  db.run("INSERT OR REPLACE INTO vault (id, salt, iterations, verifier) VALUES (1, ?, ?, ?)", [meta.salt, meta.iterations, meta.verifier]);
+  await replaceAllConnections(conns);
+  // Plaintext written before secure_delete was on may still sit in free pages
+  db.run('VACUUM');
+  await saveToDisk();
+  return meta;
+};
 
 // --- Saved Queries CRUD ---
 
@@ -193,14 +467,15 @@ export const getSavedQueries = async (): Promise<SavedQuery[]> => {
       const stmt = db.prepare("SELECT * FROM saved_queries");
       const result: SavedQuery[] = [];
       while (stmt.step()) {
-        result.push(stmt.getAsObject() as SavedQuery);
+        const row = stmt.getAsObject();
+        result.push({ ...row, bindValues: row.bindValues ? JSON.parse(row.bindValues) : undefined } as SavedQuery);
       }
       stmt.free();
       return result;
   } catch(e) {
       db.run(`
         CREATE TABLE IF NOT EXISTS saved_queries (
-          id TEXT PRIMARY KEY, name TEXT, description TEXT, query TEXT
+          id TEXT PRIMARY KEY, name TEXT, description TEXT, query TEXT, bindValues TEXT
         );
       `);
       return [];
@@ -210,9 +485,9 @@ export const getSavedQueries = async (): Promise<SavedQuery[]> => {
 export const saveQuery = async (query: SavedQuery) => {
   if (!db) await initDB();
   db.run(`
-    INSERT OR REPLACE INTO saved_queries (id, name, description, query)
-    VALUES (?, ?, ?, ?)
-  `, [query.id, query.name, query.description, query.query]);
+    INSERT OR REPLACE INTO saved_queries (id, name, description, query, bindValues)
+    VALUES (?, ?, ?, ?, ?)
+  `, [query.id, query.name, query.description, query.query, query.bindValues ? JSON.stringify(query.bindValues) : null]);
   await saveToDisk();
 };
 
@@ -221,3 +496,538 @@ export const deleteSavedQuery = async (id: string) => {
   db.run("DELETE FROM saved_queries WHERE id = ?", [id]);
   await saveToDisk();
 };
+
+
+// --- Extraction Jobs ---
+// Job metadata lives in SQLite; fetched rows go to their own IndexedDB database, one record per page,
+// so they never reach backups and saving a page does not rewrite the whole SQLite file.
+
+const EXTRACTION_DB_NAME = 'DuckOracleExtractions';
+const EXTRACTION_STORE_NAME = 'pages';
+
+interface ExtractionPage {
+  jobId: string;
+  startIndex: number;
+  rows: Record<string, string>[];
+}
+
+let extractionRowsMigrated = false;
+
+const extractionRequest = <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void) =>
+  objectStoreRequest<T>(EXTRACTION_DB_NAME, EXTRACTION_STORE_NAME, ['jobId', 'startIndex'], mode, run);
+
+// Pages of a job starting before `endIndex`
+const pageRange = (jobId: string, endIndex = Infinity) => IDBKeyRange.bound([jobId, 0], [jobId, endIndex], false, true);
+
+// Moves rows stored by earlier versions (a table in the SQLite file) to the page store, once
+const migrateExtractionRows = async () => {
+  if (extractionRowsMigrated) return;
+  if (!db) await initDB();
+  extractionRowsMigrated = true;
+  if (db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'extraction_rows'").length === 0) return;
+
+  const jobs = db.exec("SELECT DISTINCT jobId FROM extraction_rows");
+  const jobIds: string[] = jobs.length > 0 ? jobs[0].values.map((row: any[]) => row[0]) : [];
+  for (const jobId of jobIds) {
+    const res = db.exec("SELECT data FROM extraction_rows WHERE jobId = ? ORDER BY rowIndex", [jobId]);
+    const rows = res.length > 0 ? res[0].values.map((row: any[]) => JSON.parse(row[0])) : [];
+    await extractionRequest('readwrite', store => store.put({ jobId, startIndex: 0, rows } as ExtractionPage));
+  }
+  db.run("DROP TABLE extraction_rows");
+  await saveToDisk();
+};
+
+const EXTRACTION_JOB_COLUMNS: (keyof ExtractionJob)[] = [
+  'id', 'name', 'connectionId', 'query', 'bindValues', 'pageSize', 'status', 'rowsFetched',
+  'nextOffset', 'columns', 'exportFormat', 'error', 'createdAt', 'updatedAt'
+];
+
+const writeExtractionJob = (job: ExtractionJob) => {
+  db.run(`
+    INSERT OR REPLACE INTO extraction_jobs (${EXTRACTION_JOB_COLUMNS.join(', ')})
+    VALUES (${EXTRACTION_JOB_COLUMNS.map(() => '?').join(', ')})
+  `, EXTRACTION_JOB_COLUMNS.map(col => {
+    const value = job[col];
+    if (col === 'bindValues' || col === 'columns') return value ? JSON.stringify(value) : null;
+    return value ?? null;
+  }));
+};
+
+export const getExtractionJobs = async (): Promise<ExtractionJob[]> => {
+  if (!db) await initDB();
+  const stmt = db.prepare("SELECT * FROM extraction_jobs ORDER BY createdAt DESC");
+  const result: ExtractionJob[] = [];
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    result.push({
+      ...row,
+      bindValues: row.bindValues ? JSON.parse(row.bindValues) : undefined,
+      columns: row.columns ? JSON.parse(row.columns) : [],
+      error: row.error || undefined,
+    } as ExtractionJob);
+  }
+  stmt.free();
+  return result;
+};
+
+export const saveExtractionJob = async (job: ExtractionJob) => {
+  if (!db) await initDB();
+  writeExtractionJob(job);
+  await saveToDisk();
+};
+
+/**
+ * Stores one fetched page, then the job's new resume point. The page is written right away; writing
+ * the SQLite file is expensive for large extractions, so callers decide when to persist the job.
+ * Pages past the stored resume point (after a reload) are fetched again and replaced.
+ */
+export const appendExtractionPage = async (
+  job: ExtractionJob,
+  startIndex: number,
+  rows: Record<string, string>[],
+  persist: boolean
+) => {
+  await migrateExtractionRows();
+  await extractionRequest('readwrite', store => store.put({ jobId: job.id, startIndex, rows } as ExtractionPage));
+  writeExtractionJob(job);
+  if (persist) await saveToDisk();
+};
+
+/**
+ * Rows of the job up to its stored resume point, in fetch order.
+ */
+export const getExtractionRows = async (job: ExtractionJob): Promise<Record<string, string>[]> => {
+  await migrateExtractionRows();
+  const pages = (await extractionRequest<ExtractionPage[]>('readonly', store => store.getAll(pageRange(job.id, job.nextOffset)))) || [];
+  return pages.flatMap(page => page.rows);
+};
+
+export const deleteExtractionJob = async (id: string) => {
+  await migrateExtractionRows();
+  await extractionRequest('readwrite', store => store.delete(pageRange(id)));
+  db.run("DELETE FROM extraction_jobs WHERE id = ?", [id]);
+  await saveToDisk();
+};
+
+
+// --- Schema Metadata Cache ---
+
+export const getSchemaCacheInfo = async (connectionId: string): Promise<SchemaCacheInfo> => {
+  if (!db) await initDB();
+  const count = db.exec("SELECT COUNT(*) FROM schema_objects WHERE connectionId = ?", [connectionId]);
+  const meta = db.exec("SELECT owner, fetchedAt FROM schema_cache WHERE connectionId = ?", [connectionId]);
+  return {
+    objectCount: count.length > 0 ? count[0].values[0][0] : 0,
+    owner: meta.length > 0 ? meta[0].values[0][0] || '' : '',
+    fetchedAt: meta.length > 0 ? meta[0].values[0][1] : null,
+  };
+};
+
+/**
+ * Replaces the cached object list of a connection (cached columns and view text are dropped too).
+ */
+export const replaceSchemaObjects = async (connectionId: string, owner: string, objects: SchemaObject[]) => {
+  if (!db) await initDB();
+  db.run("BEGIN");
+  try {
+    db.run("DELETE FROM schema_objects WHERE connectionId = ?", [connectionId]);
+    db.run("DELETE FROM schema_columns WHERE connectionId = ?", [connectionId]);
+    const stmt = db.prepare("INSERT OR REPLACE INTO schema_objects (connectionId, owner, name, type) VALUES (?, ?, ?, ?)");
+    objects.forEach(o => stmt.run([connectionId, o.owner, o.name, o.type]));
+    stmt.free();
+    db.run("INSERT OR REPLACE INTO schema_cache (connectionId, owner, fetchedAt) VALUES (?, ?, ?)", [connectionId, owner, Date.now()]);
+    db.run("COMMIT");
+  } catch (e) {
+    db.run("ROLLBACK");
+    throw e;
+  }
+  await saveToDisk();
+};
+
+/**
+ * Searches cached object names (case-insensitive substring match, or prefix match with `prefix`),
+ * tables before views.
+ */
+export const searchSchemaObjects = async (
+  connectionId: string,
+  search: string,
+  limit: number,
+  options: { owner?: string; prefix?: boolean } = {}
+): Promise<SchemaObject[]> => {
+  if (!db) await initDB();
+  const stmt = db.prepare(`
+    SELECT owner, name, type FROM schema_objects
+    WHERE connectionId = ? AND name LIKE ? ESCAPE '\\' ${options.owner ? 'AND owner = ?' : ''}
+    ORDER BY type, name, owner
+    LIMIT ?
+  `);
+  const pattern = `${options.prefix ? '' : '%'}${search.toUpperCase().replace(/[\\%_]/g, '\\$&')}%`;
+  stmt.bind(options.owner ? [connectionId, pattern, options.owner, limit] : [connectionId, pattern, limit]);
+  const result: SchemaObject[] = [];
+  while (stmt.step()) {
+    result.push(stmt.getAsObject() as SchemaObject);
+  }
+  stmt.free();
+  return result;
+};
+
+/**
+ * Returns the cached columns of a table or view, or null when they have not been fetched yet.
+ */
+export const getSchemaColumns = async (connectionId: string, obj: SchemaObject): Promise<SchemaColumn[] | null> => {
+  if (!db) await initDB();
+  const stmt = db.prepare("SELECT name, dataType, nullable, position FROM schema_columns WHERE connectionId = ? AND owner = ? AND tableName = ? ORDER BY position");
+  stmt.bind([connectionId, obj.owner, obj.name]);
+  const result: SchemaColumn[] = [];
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    result.push({ ...row, nullable: !!row.nullable } as SchemaColumn);
+  }
+  stmt.free();
+  return result.length > 0 ? result : null;
+};
+
+export const saveSchemaColumns = async (connectionId: string, obj: SchemaObject, columns: SchemaColumn[]) => {
+  if (!db) await initDB();
+  db.run("DELETE FROM schema_columns WHERE connectionId = ? AND owner = ? AND tableName = ?", [connectionId, obj.owner, obj.name]);
+  const stmt = db.prepare("INSERT INTO schema_columns (connectionId, owner, tableName, name, dataType, nullable, position) VALUES (?, ?, ?, ?, ?, ?, ?)");
+  columns.forEach(c => stmt.run([connectionId, obj.owner, obj.name, c.name, c.dataType, c.nullable ? 1 : 0, c.position]));
+  stmt.free();
+  await saveToDisk();
+};
+
+export const getSchemaViewText = async (connectionId: string, obj: SchemaObject): Promise<string | null> => {
+  if (!db) await initDB();
+  const res = db.exec("SELECT viewText FROM schema_objects WHERE connectionId = ? AND owner = ? AND name = ? AND type = ?", [connectionId, obj.owner, obj.name, obj.type]);
+  return res.length > 0 ? res[0].values[0][0] : null;
+};
+
+export const saveSchemaViewText = async (connectionId: string, obj: SchemaObject, text: string) => {
+  if (!db) await initDB();
+  db.run("UPDATE schema_objects SET viewText = ? WHERE connectionId = ? AND owner = ? AND name = ? AND type = ?", [text, connectionId, obj.owner, obj.name, obj.type]);
+  await saveToDisk();
+};
+
+/**
+ * Looks up cached tables/views by exact name (and owner when given), tables first.
+ */
+export const findSchemaObjectsByName = async (connectionId: string, name: string, owner?: string): Promise<SchemaObject[]> => {
+  if (!db) await initDB();
+  const stmt = db.prepare(`
+    SELECT owner, name, type FROM schema_objects
+    WHERE connectionId = ? AND name = ? ${owner ? 'AND owner = ?' : ''}
+    ORDER BY type, owner
+  `);
+  stmt.bind(owner ? [connectionId, name, owner] : [connectionId, name]);
+  const result: SchemaObject[] = [];
+  while (stmt.step()) {
+    result.push(stmt.getAsObject() as SchemaObject);
+  }
+  stmt.free();
+  return result;
+};
+
+
+// --- Scheduled Runs ---
+
+const SCHEDULED_RUN_COLUMNS: (keyof ScheduledRun)[] = [
+  'id', 'connectionId', 'jobId', 'name', 'query', 'bindValues', 'rowLimit', 'status',
+  'serverStatus', 'error', 'rowCount', 'submittedAt', 'completedAt'
+];
+
+export const getScheduledRuns = async (): Promise<ScheduledRun[]> => {
+  if (!db) await initDB();
+  const stmt = db.prepare(`SELECT ${SCHEDULED_RUN_COLUMNS.join(', ')} FROM scheduled_runs ORDER BY submittedAt DESC`);
+  const result: ScheduledRun[] = [];
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    result.push({
+      ...row,
+      bindValues: row.bindValues ? JSON.parse(row.bindValues) : undefined,
+      serverStatus: row.serverStatus || undefined,
+      error: row.error || undefined,
+      rowCount: row.rowCount ?? undefined,
+      completedAt: row.completedAt || undefined,
+    } as ScheduledRun);
+  }
+  stmt.free();
+  return result;
+};
+
+/**
+ * Inserts or updates a run. The downloaded result is only written when given,
+ * so status updates keep a previously stored result.
+ */
+export const saveScheduledRun = async (run: ScheduledRun, result?: QueryResult) => {
+  if (!db) await initDB();
+  db.run(`
+    INSERT INTO scheduled_runs (${SCHEDULED_RUN_COLUMNS.join(', ')})
+    VALUES (${SCHEDULED_RUN_COLUMNS.map(() => '?').join(', ')})
+    ON CONFLICT(id) DO UPDATE SET ${SCHEDULED_RUN_COLUMNS.filter(c => c !== 'id').map(c => `${c} = excluded.${c}`).join(', ')}
+  `, SCHEDULED_RUN_COLUMNS.map(col => {
+    const value = run[col];
+    if (col === 'bindValues') return value ? JSON.stringify(value) : null;
+    return value ?? null;
+  }));
+  if (result) {
+    // Raw XML is dropped: it doubles the stored size and can be re-downloaded from BIP
+    const { rawXml, ...stored } = result;
+    db.run("UPDATE scheduled_runs SET result = ? WHERE id = ?", [JSON.stringify(stored), run.id]);
+  }
+  await saveToDisk();
+};
+
+export const getScheduledRunResult = async (id: string): Promise<QueryResult | null> => {
+  if (!db) await initDB();
+  const res = db.exec("SELECT result FROM scheduled_runs WHERE id = ?", [id]);
+  const json = res.length > 0 ? res[0].values[0][0] : null;
+  return json ? JSON.parse(json) : null;
+};
+
+export const deleteScheduledRun = async (id: string) => {
+  if (!db) await initDB();
+  db.run("DELETE FROM scheduled_runs WHERE id = ?", [id]);
+  await saveToDisk();
+};
+
+
+// --- Query History ---
+
+const HISTORY_COLUMNS: (keyof HistoryItem)[] = [
+  'id', 'connectionId', 'query', 'timestamp', 'status', 'rowCount', 'durationMs', 'error'
+];
+
+// Drops entries older than the retention age, then all but the newest `maxEntries`
+const applyHistoryRetention = ({ maxEntries, maxAgeDays }: HistoryRetention) => {
+  if (maxAgeDays > 0) {
+    db.run("DELETE FROM query_history WHERE timestamp < ?", [Date.now() - maxAgeDays * 24 * 60 * 60 * 1000]);
+  }
+  if (maxEntries > 0) {
+    db.run("DELETE FROM query_history WHERE id NOT IN (SELECT id FROM query_history ORDER BY timestamp DESC LIMIT ?)", [maxEntries]);
+  }
+};
+
+/**
+ * Logs an execution and trims the history to the retention limits in the same write.
+ */
+export const addHistoryItem = async (item: HistoryItem, retention: HistoryRetention) => {
+  if (!db) await initDB();
+  db.run(`INSERT OR REPLACE INTO query_history (${HISTORY_COLUMNS.join(', ')}) VALUES (${HISTORY_COLUMNS.map(() => '?').join(', ')})`,
+    HISTORY_COLUMNS.map(col => item[col] ?? null));
+  applyHistoryRetention(retention);
+  await saveToDisk();
+};
+
+/**
+ * Newest executions first. Every word of `search` must appear (case-insensitive) in the SQL or the error.
+ */
+export const searchHistory = async (filter: HistoryFilter, limit: number): Promise<HistoryItem[]> => {
+  if (!db) await initDB();
+  const where: string[] = [];
+  const params: any[] = [];
+  (filter.search || '').split(/\s+/).filter(Boolean).forEach(word => {
+    const pattern = `%${word.replace(/[\\%_]/g, '\\$&')}%`;
+    where.push("(query LIKE ? ESCAPE '\\' OR error LIKE ? ESCAPE '\\')");
+    params.push(pattern, pattern);
+  });
+  if (filter.connectionId) { where.push('connectionId = ?'); params.push(filter.connectionId); }
+  if (filter.status) { where.push('status = ?'); params.push(filter.status); }
+  if (filter.from !== undefined) { where.push('timestamp >= ?'); params.push(filter.from); }
+  if (filter.to !== undefined) { where.push('timestamp < ?'); params.push(filter.to); }
+
+  const stmt = db.prepare(`
+    SELECT ${HISTORY_COLUMNS.join(', ')} FROM query_history
+    ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+    ORDER BY timestamp DESC
+    LIMIT ?
+  `);
+  stmt.bind([...params, limit]);
+  const result: HistoryItem[] = [];
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    result.push({ ...row, rowCount: row.rowCount ?? undefined, error: row.error || undefined } as HistoryItem);
+  }
+  stmt.free();
+  return result;
+};
+
+export const deleteHistoryItem = async (id: string) => {
+  if (!db) await initDB();
+  db.run("DELETE FROM query_history WHERE id = ?", [id]);
+  await saveToDisk();
+};
+
+export const clearHistory = async () => {
+  if (!db) await initDB();
+  db.run("DELETE FROM query_history");
+  await saveToDisk();
+};
+
+/**
+ * Applies changed retention limits right away (history panel).
+ */
+export const pruneHistory = async (retention: HistoryRetention) => {
+  if (!db) await initDB();
+  applyHistoryRetention(retention);
+  await saveToDisk();
+};
+
+
+// --- Workspaces ---
+// Kept in their own IndexedDB database: the editor autosaves them after every pause in typing, and going
+// through saveToDisk would serialize the whole SQLite file (history, snapshots) each time.
+
+const WORKSPACE_DB_NAME = 'DuckOracleWorkspaces';
+const WORKSPACE_STORE_NAME = 'workspaces';
+
+let workspacesMigrated = false;
+
+const workspaceRequest = <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void) =>
+  objectStoreRequest<T>(WORKSPACE_DB_NAME, WORKSPACE_STORE_NAME, 'id', mode, run);
+
+// Moves workspaces stored by earlier versions (a table in the SQLite file) to their own store, once
+const migrateWorkspaces = async () => {
+  if (workspacesMigrated) return;
+  if (!db) await initDB();
+  workspacesMigrated = true;
+  if (db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'workspaces'").length === 0) return;
+
+  const res = db.exec("SELECT state FROM workspaces");
+  const stored: Workspace[] = res.length > 0 ? res[0].values.map((row: any[]) => JSON.parse(row[0])) : [];
+  await workspaceRequest('readwrite', store => { stored.forEach(workspace => store.put(workspace)); });
+  db.run("DROP TABLE workspaces");
+  await saveToDisk();
+};
+
+export const getWorkspaceSummaries = async (): Promise<WorkspaceSummary[]> => {
+  await migrateWorkspaces();
+  const workspaces = (await workspaceRequest<Workspace[]>('readonly', store => store.getAll())) || [];
+  return workspaces
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+};
+
+export const getWorkspace = async (id: string): Promise<Workspace | null> => {
+  await migrateWorkspaces();
+  return (await workspaceRequest<Workspace>('readonly', store => store.get(id))) || null;
+};
+
+export const saveWorkspace = async (workspace: Workspace) => {
+  await migrateWorkspaces();
+  await workspaceRequest('readwrite', store => store.put(workspace));
+};
+
+export const deleteWorkspace = async (id: string) => {
+  await migrateWorkspaces();
+  await workspaceRequest('readwrite', store => store.delete(id));
+};
+
+
+// --- Result Snapshots ---
+
+const SNAPSHOT_COLUMNS: (keyof ResultSnapshot)[] = [
+  'id', 'name', 'connectionId', 'query', 'savedQueryId', 'bindValues', 'createdAt', 'rowCount', 'isTruncated'
+];
+
+export const getSnapshots = async (): Promise<ResultSnapshot[]> => {
+  if (!db) await initDB();
+  const stmt = db.prepare(`SELECT ${SNAPSHOT_COLUMNS.join(', ')} FROM result_snapshots ORDER BY createdAt DESC`);
+  const result: ResultSnapshot[] = [];
+  while (stmt.step()) {
+    const row = stmt.getAsObject();
+    result.push({
+      ...row,
+      savedQueryId: row.savedQueryId || undefined,
+      bindValues: row.bindValues ? JSON.parse(row.bindValues) : undefined,
+      isTruncated: !!row.isTruncated,
+    } as ResultSnapshot);
+  }
+  stmt.free();
+  return result;
+};
+
+/**
+ * Stores a snapshot with its result. Snapshots are evidence: they are never updated, only deleted.
+ */
+export const saveSnapshot = async (snapshot: ResultSnapshot, result: QueryResult) => {
+  if (!db) await initDB();
+  // Raw XML is dropped: it doubles the stored size and the rows carry the same data
+  const { rawXml, ...stored } = result;
+  db.run(`
+    INSERT INTO result_snapshots (${SNAPSHOT_COLUMNS.join(', ')}, result)
+    VALUES (${SNAPSHOT_COLUMNS.map(() => '?').join(', ')}, ?)
+  `, [...SNAPSHOT_COLUMNS.map(col => {
+    const value = snapshot[col];
+    if (col === 'bindValues') return value ? JSON.stringify(value) : null;
+    if (col === 'isTruncated') return value ? 1 : 0;
+    return value ?? null;
+  }), JSON.stringify(stored)]);
+  await saveToDisk();
+};
+
+export const getSnapshotResult = async (id: string): Promise<QueryResult | null> => {
+  if (!db) await initDB();
+  const res = db.exec("SELECT result FROM result_snapshots WHERE id = ?", [id]);
+  const json = res.length > 0 ? res[0].values[0][0] : null;
+  return json ? JSON.parse(json) : null;
+};
+
+export const deleteSnapshot = async (id: string) => {
+  if (!db) await initDB();
+  db.run("DELETE FROM result_snapshots WHERE id = ?", [id]);
+  await saveToDisk();
+};
+
+
+// --- Local Result Tables (scratch database) ---
+
+const getScratchDb = async () => {
+  if (!SQL) await initDB();
+  if (!scratchDb) scratchDb = new SQL.Database();
+  return scratchDb;
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * (Re)creates a scratch table and fills it. Values are bound as given (numbers, strings or null).
+ */
+export const replaceScratchTable = async (name: string, columns: { name: string; type: string }[], rows: any[][]) => {
+  const scratch = await getScratchDb();
+  scratch.run(`DROP TABLE IF EXISTS ${quoteIdentifier(name)}`);
+  scratch.run(`CREATE TABLE ${quoteIdentifier(name)} (${columns.map(c => `${quoteIdentifier(c.name)} ${c.type}`).join(', ')})`);
+  scratch.run('BEGIN');
+  try {
+    const stmt = scratch.prepare(`INSERT INTO ${quoteIdentifier(name)} VALUES (${columns.map(() => '?').join(', ')})`);
+    rows.forEach(row => stmt.run(row));
+    stmt.free();
+    scratch.run('COMMIT');
+  } catch (e) {
+    scratch.run('ROLLBACK');
+    throw e;
+  }
+};
+
+export const getScratchTables = async (): Promise<{ name: string; rowCount: number }[]> => {
+  const scratch = await getScratchDb();
+  const res = scratch.exec("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name");
+  if (res.length === 0) return [];
+  return res[0].values.map((row: any[]) => ({
+    name: row[0],
+    rowCount: scratch.exec(`SELECT COUNT(*) FROM ${quoteIdentifier(row[0])}`)[0].values[0][0],
+  }));
+};
+
+export const dropScratchTable = async (name: string) => {
+  const scratch = await getScratchDb();
+  scratch.run(`DROP TABLE IF EXISTS ${quoteIdentifier(name)}`);
+};
+
+/**
+ * Runs SQLite SQL against the scratch tables. With several statements, the last result set is returned.
+ */
+export const execScratch = async (sql: string): Promise<{ columns: string[]; values: any[][] }> => {
+  const scratch = await getScratchDb();
+  const res = scratch.exec(sql);
+  return res.length > 0 ? res[res.length - 1] : { columns: [], values: [] };
+};
@@ -0,0 +1,141 @@
+import { ConnectionConfig, ConnectionStatus, ProbeFailure } from '../types';
+import { executeSoapQuery } from './soapService';
+import { verifyLogon } from './otbiService';
+import { AuthRequiredError, EmptyOutputError, HttpError, NetworkError, OracleQueryError, QueryAbortedError, SoapFaultError } from './errors';
+
+// Identifies the database behind the pod without needing any Fusion grants
+const PROBE_SQL = `SELECT SYS_CONTEXT('USERENV', 'DB_NAME') AS DB_NAME,
+       SYS_CONTEXT('USERENV', 'SERVER_HOST') AS SERVER_HOST,
+       SYS_CONTEXT('USERENV', 'SESSION_USER') AS SESSION_USER
+FROM DUAL`;
+
+// Best effort: the Fusion release is only readable with access to the applications dictionary
+const RELEASE_SQL = `SELECT RELEASE_NAME FROM FUSION.AD_PRODUCT_GROUPS`;
+
+export const PROBE_FAILURE_LABELS: Record<ProbeFailure, { title: string; hint: string }> = {
+  dns: { title: 'Host unreachable', hint: 'The instance URL (or the CORS proxy) could not be reached. Check the host name and your network/VPN.' },
+  cors: { title: 'Blocked by CORS', hint: 'The host answers but the browser blocked the response. Configure a CORS proxy.' },
+  timeout: { title: 'Timed out', hint: 'No answer within the connection timeout. The pod may be down or the proxy slow.' },
+  http: { title: 'HTTP error', hint: 'The server answered with an error status. A 404 usually means a wrong URL or service path.' },
+  auth: { title: 'Authentication failed', hint: 'Check the username/password or token. Locked or SSO-only accounts need a bearer token.' },
+  soap_fault: { title: 'SOAP fault', hint: 'BI Publisher rejected the request. Check the SOAP template.' },
+  report: { title: 'Report not found', hint: 'The report path does not exist or the user cannot run it. Check the Report Path or install the SQL runner.' },
+  no_report_bytes: { title: 'No report output', hint: 'The report ran but returned no data: its data model probably does not execute the q1..q9 SQL.' },
+  oracle: { title: 'Database error', hint: 'The report reached the database, which rejected the probe query.' },
+  unknown: { title: 'Failed', hint: 'See the error message.' },
+};
+
+/**
+ * Tells DNS/network failures from CORS: an opaque no-cors request only succeeds when the host answers.
+ */
+const isHostReachable = async (config: ConnectionConfig): Promise<boolean> => {
+  try {
+    await fetch(new URL(config.url.trim()).origin, { mode: 'no-cors', signal: AbortSignal.timeout(10000) });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const classifyError = async (config: ConnectionConfig, err: any): Promise<{ failure: ProbeFailure; httpStatus?: number }> => {
+  const message: string = err?.message || '';
+
+  if (err instanceof AuthRequiredError) return { failure: 'auth', httpStatus: 401 };
+  if (err instanceof QueryAbortedError) return { failure: 'timeout' };
+  if (err instanceof OracleQueryError) return { failure: 'oracle' };
+  if (err instanceof EmptyOutputError) return { failure: 'no_report_bytes' };
+  if (err instanceof NetworkError) {
+    // Through a proxy, a network error means the proxy itself is unreachable
+    if (config.corsProxy?.trim()) return { failure: 'dns' };
+    return { failure: await isHostReachable(config) ? 'cors' : 'dns' };
+  }
+  if (err instanceof HttpError) {
+    const auth = err.status === 401 || err.status === 403;
+    return { failure: auth ? 'auth' : 'http', httpStatus: err.status };
+  }
+  if (err instanceof SoapFaultError) {
+    // BIP reports bad credentials and missing reports as plain faults
+    if (/invalid (username|user|password)|authenticat|unauthori[sz]ed|not authorized/i.test(message)) return { failure: 'auth' };
+    if (/report.*(not found|does not exist|cannot be found)|accessdenied|executeReport failure/i.test(message)) return { failure: 'report' };
+    return { failure: 'soap_fault' };
+  }
+  return { failure: 'unknown' };
+};
+
+/**
+ * Pod details derived from a Fusion URL like https://abcd-dev1.fa.us2.oraclecloud.com.
+ */
+const describeHost = (config: ConnectionConfig): Record<string, string> => {
+  try {
+    const host = new URL(config.url.trim()).hostname;
+    const match = host.match(/^([^.]+)\.fa\.([^.]+)\.oraclecloud\.com$/i);
+    return match ? { Pod: match[1], 'Data Center': match[2] } : { Host: host };
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Runs a tiny probe through the connection and classifies the outcome.
+ * BIP connections run PROBE_SQL through the SQL runner report; OTBI connections log on.
+ */
+export const testConnection = async (config: ConnectionConfig): Promise<ConnectionStatus> => {
+  const checkedAt = Date.now();
+  const serverInfo = describeHost(config);
+  const started = performance.now();
+  // No retries: a failure is classified as it happens and the latency excludes backoff waits
+  const probeConfig: ConnectionConfig = { ...config, maxRetries: 0 };
+
+  try {
+    // 1. Probe round trip
+    if (config.connectionType === 'otbi') {
+      await verifyLogon(probeConfig);
+    } else {
+      const result = await executeSoapQuery(PROBE_SQL, probeConfig, 1);
+      const row = result.rows[0] || {};
+      if (row.DB_NAME) serverInfo['Database'] = row.DB_NAME;
+      if (row.SERVER_HOST) serverInfo['DB Host'] = row.SERVER_HOST;
+      if (row.SESSION_USER) serverInfo['Session User'] = row.SESSION_USER;
+    }
+    const latencyMs = Math.round(performance.now() - started);
+
+    // 2. Release (ignored when the data model user cannot read it)
+    if (config.connectionType !== 'otbi') {
+      try {
+        const release = await executeSoapQuery(RELEASE_SQL, probeConfig, 1);
+        if (release.rows[0]?.RELEASE_NAME) serverInfo['Release'] = release.rows[0].RELEASE_NAME;
+      } catch { /* not available */ }
+    }
+
+    return {
+      connectionId: config.id,
+      checkedAt,
+      ok: true,
+      message: config.connectionType === 'otbi' ? `Logged on in ${latencyMs} ms.` : `Probe query returned in ${latencyMs} ms.`,
+      latencyMs,
+      serverInfo,
+    };
+  } catch (err: any) {
+    const { failure, httpStatus } = await classifyError(config, err);
+    return {
+      connectionId: config.id,
+      checkedAt,
+      ok: false,
+      failure,
+      message: err?.message || 'Unknown error',
+      latencyMs: Math.round(performance.now() - started),
+      httpStatus,
+      serverInfo,
+    };
+  }
+};
+
+/**
+ * One-line summary for tooltips, e.g. "OK • 412 ms • tested 19/10/2026, 10:32:00".
+ */
+export const describeStatus = (status: ConnectionStatus): string => {
+  const when = new Date(status.checkedAt).toLocaleString();
+  if (status.ok) return `OK • ${status.latencyMs} ms • tested ${when}`;
+  const label = PROBE_FAILURE_LABELS[status.failure || 'unknown'].title;
+  return `${label}${status.httpStatus ? ` (HTTP ${status.httpStatus})` : ''} • tested ${when}`;
+};
@@ -0,0 +1,122 @@
+import { ConnectionConfig, QueryAttempt } from '../types';
+
+// Failure classes of a web service call, from the network up to the SQL
+export type ServiceErrorKind = 'network' | 'auth' | 'http' | 'soap_fault' | 'oracle' | 'empty_output';
+
+// Gateway and throttling statuses returned while a pod is patched or restarted
+const TRANSIENT_HTTP_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+/**
+ * Base class of web service failures. `transient` failures are retried (see retryService).
+ */
+export class ServiceError extends Error {
+  kind: ServiceErrorKind;
+  transient: boolean;
+  attempts?: QueryAttempt[]; // Attempt log when the call was retried
+
+  constructor(kind: ServiceErrorKind, message: string, transient = false) {
+    super(message);
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.transient = transient;
+  }
+}
+
+// Failures faster than this never reached a server: CORS, mixed content or DNS, which a retry cannot fix
+const IMMEDIATE_FAILURE_MS = 1500;
+
+/**
+ * The request never got an HTTP response: DNS, CORS or a dropped connection.
+ * Only a connection dropped after a while (`elapsedMs`) is worth retrying.
+ */
+export class NetworkError extends ServiceError {
+  constructor(message: string, elapsedMs = Infinity) {
+    super('network', message, elapsedMs >= IMMEDIATE_FAILURE_MS);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Raised when the connection cannot authenticate without user input: the pasted token is missing,
+ * expired or rejected, or the server refused the username/password.
+ * `field` is the connection setting to prompt for.
+ */
+export class AuthRequiredError extends ServiceError {
+  connectionId: string;
+  field: 'accessToken' | 'password';
+
+  constructor(config: ConnectionConfig, message: string) {
+    super('auth', message);
+    this.name = 'AuthRequiredError';
+    this.connectionId = config.id;
+    this.field = config.authMode === 'bearer' ? 'accessToken' : 'password';
+  }
+}
+
+/**
+ * Non-2xx response without a SOAP fault (gateway errors, wrong URL, ...).
+ */
+export class HttpError extends ServiceError {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super('http', message, TRANSIENT_HTTP_STATUSES.has(status));
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * BI Publisher (or analytics) answered with a SOAP fault.
+ */
+export class SoapFaultError extends ServiceError {
+  faultText: string;
+
+  constructor(message: string, faultText: string, kind: ServiceErrorKind = 'soap_fault') {
+    super(kind, message);
+    this.name = 'SoapFaultError';
+    this.faultText = faultText;
+  }
+}
+
+/**
+ * Raised when Oracle rejects the statement with an ORA-xxxxx error.
+ * `position` is the error offset in the query passed to executeSoapQuery (when Oracle reported one).
+ */
+export class OracleQueryError extends SoapFaultError {
+  code: string;
+  oraMessage: string;
+  position?: number;
+
+  constructor(message: string, code: string, oraMessage: string, position?: number) {
+    super(message, message, 'oracle');
+    this.name = 'OracleQueryError';
+    this.code = code;
+    this.oraMessage = oraMessage;
+    this.position = position;
+  }
+}
+
+/**
+ * The report ran but its response carries no output (no reportBytes).
+ */
+export class EmptyOutputError extends ServiceError {
+  constructor(message: string) {
+    super('empty_output', message);
+    this.name = 'EmptyOutputError';
+  }
+}
+
+/**
+ * Raised when a request is stopped by the user or by the connection timeout.
+ */
+export class QueryAbortedError extends Error {
+  reason: 'cancelled' | 'timeout';
+  attempts?: QueryAttempt[];
+
+  constructor(reason: 'cancelled' | 'timeout', message: string) {
+    super(message);
+    this.name = 'QueryAbortedError';
+    this.reason = reason;
+  }
+}
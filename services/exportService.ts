@@ -1,4 +1,5 @@
 import { QueryResult } from '../types';
+import { inferColumnTypes, toTypedValue } from './formatService';
 
 declare const XLSX: any; // From CDN
 
@@ -57,9 +58,25 @@ export const exportToXLSX = (result: QueryResult, filename = 'export.xlsx') => {
         return;
     }
 
-    // 1. Prepare data
+    // 1. Prepare data with native number/date values so Excel does not store them as text
     // XLSX.utils.json_to_sheet expects an array of objects
-    const ws = XLSX.utils.json_to_sheet(result.rows, { header: result.columns });
+    const meta = result.columnMeta || inferColumnTypes(result.columns, result.rows);
+    const typedRows = result.rows.map(row => {
+        const typed: Record<string, string | number | Date | null> = {};
+        meta.forEach(({ name, type }) => { typed[name] = toTypedValue(row[name], type); });
+        return typed;
+    });
+    const ws = XLSX.utils.json_to_sheet(typedRows, { header: result.columns, cellDates: true });
+
+    // Apply a display format to date columns (SheetJS defaults to m/d/yy)
+    meta.forEach(({ name, type }) => {
+        if (type !== 'date' && type !== 'timestamp') return;
+        const numFmt = type === 'date' ? 'yyyy-mm-dd' : 'yyyy-mm-dd hh:mm:ss';
+        for (let r = 1; r <= typedRows.length; r++) {
+            const cell = ws[XLSX.utils.encode_cell({ r, c: result.columns.indexOf(name) })];
+            if (cell && cell.t === 'd') cell.z = numFmt;
+        }
+    });
     
     // 2. Create workbook
     const wb = XLSX.utils.book_new();
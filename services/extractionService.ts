@@ -0,0 +1,162 @@
+import { ConnectionConfig, ExtractionJob, QueryResult } from '../types';
+import { QueryAbortedError } from './errors';
+import { executeQuery } from './queryService';
+import { appendExtractionPage, deleteExtractionJob, getExtractionJobs, getExtractionRows, saveExtractionJob } from './dbService';
+import { exportToCSV, exportToXLSX } from './exportService';
+import { inferColumnTypes } from './formatService';
+import { hasTopLevelOrderBy } from './sqlParser';
+
+// Persist the job's resume point (a write of the whole SQLite file) at most this often while pages stream in
+const PERSIST_INTERVAL_MS = 10000;
+
+// Jobs currently looping in this browser tab (keyed by job id)
+const runningJobs = new Map<string, AbortController>();
+
+// Jobs deleted while running: their loop must not write the job back on exit
+const discardedJobs = new Set<string>();
+
+export const isExtractionRunning = (jobId: string): boolean => runningJobs.has(jobId);
+
+/**
+ * Why the query cannot be extracted page by page, or null when it can. Every page (and every resume)
+ * is a new run, so only a deterministic order keeps pages from repeating or skipping rows.
+ */
+export const getExtractionBlocker = (query: string, config: ConnectionConfig): string | null => {
+  if (config.connectionType === 'otbi') {
+    // Logical SQL fetches every row up to the end of the page on each page: quadratic for large extracts
+    return 'Extraction jobs are not available for OTBI connections. Run the logical SQL as a query or schedule it instead.';
+  }
+  if (!hasTopLevelOrderBy(query)) {
+    return 'Add an ORDER BY on unique columns (e.g. the primary key, or ROWID for a single-table select) before extracting: without a stable order, pages can repeat or miss rows.';
+  }
+  return null;
+};
+
+/**
+ * Loads saved jobs. Jobs left 'running' by a previous session (page reload, closed tab)
+ * are marked 'paused' so they can be resumed from their last stored page.
+ */
+export const loadExtractionJobs = async (): Promise<ExtractionJob[]> => {
+  const jobs = await getExtractionJobs();
+  for (const job of jobs) {
+    if (job.status === 'running' && !isExtractionRunning(job.id)) {
+      job.status = 'paused';
+      await saveExtractionJob(job);
+    }
+  }
+  return jobs;
+};
+
+/**
+ * Pages through the job's query from its resume point, storing every page.
+ * Resolves when the job completes, fails or is paused; `onUpdate` receives every state change.
+ */
+export const runExtractionJob = async (
+  initial: ExtractionJob,
+  config: ConnectionConfig,
+  onUpdate: (job: ExtractionJob) => void
+): Promise<ExtractionJob> => {
+  if (runningJobs.has(initial.id)) return initial;
+
+  // Jobs created before the checks existed are stopped here rather than resumed
+  const blocker = getExtractionBlocker(initial.query, config);
+  if (blocker) {
+    const failed: ExtractionJob = { ...initial, status: 'failed', error: blocker, updatedAt: Date.now() };
+    await saveExtractionJob(failed);
+    onUpdate(failed);
+    return failed;
+  }
+
+  const controller = new AbortController();
+  runningJobs.set(initial.id, controller);
+
+  let job: ExtractionJob = { ...initial, status: 'running', error: undefined, updatedAt: Date.now() };
+  await saveExtractionJob(job);
+  onUpdate(job);
+
+  let lastPersist = Date.now();
+
+  try {
+    while (true) {
+      const page = await executeQuery(job.query, config, job.pageSize, {
+        offset: job.nextOffset,
+        signal: controller.signal,
+        bindValues: job.bindValues,
+      });
+
+      const columns = [...job.columns];
+      page.columns.forEach(col => { if (!columns.includes(col)) columns.push(col); });
+
+      const done = !page.paging?.hasMore;
+      const startIndex = job.nextOffset;
+      job = {
+        ...job,
+        columns,
+        rowsFetched: job.nextOffset + page.rows.length,
+        nextOffset: job.nextOffset + page.rows.length,
+        status: done ? 'completed' : 'running',
+        updatedAt: Date.now(),
+      };
+
+      const persist = done || Date.now() - lastPersist > PERSIST_INTERVAL_MS;
+      await appendExtractionPage(job, startIndex, page.rows, persist);
+      if (persist) lastPersist = Date.now();
+      onUpdate(job);
+
+      if (done) break;
+    }
+
+    if (job.exportFormat !== 'none') {
+      await exportExtractionJob(job, job.exportFormat);
+    }
+  } catch (err: any) {
+    if (discardedJobs.delete(job.id)) return job;
+    job = {
+      ...job,
+      status: err instanceof QueryAbortedError && err.reason === 'cancelled' ? 'paused' : 'failed',
+      error: err instanceof QueryAbortedError && err.reason === 'cancelled' ? undefined : (err.message || 'Unknown error occurred'),
+      updatedAt: Date.now(),
+    };
+    await saveExtractionJob(job);
+    onUpdate(job);
+  } finally {
+    runningJobs.delete(job.id);
+  }
+
+  return job;
+};
+
+export const pauseExtractionJob = (jobId: string) => {
+  runningJobs.get(jobId)?.abort();
+};
+
+/**
+ * Stops the job if it is running and removes it with all of its stored rows.
+ */
+export const removeExtractionJob = async (jobId: string) => {
+  if (runningJobs.has(jobId)) {
+    discardedJobs.add(jobId);
+    runningJobs.get(jobId)!.abort();
+  }
+  await deleteExtractionJob(jobId);
+};
+
+/**
+ * Builds a QueryResult from the stored rows of a job (used for export and preview).
+ */
+export const loadExtractionResult = async (job: ExtractionJob): Promise<QueryResult> => {
+  const rows = await getExtractionRows(job);
+  return {
+    columns: job.columns,
+    columnMeta: inferColumnTypes(job.columns, rows),
+    rows,
+    executionTimeMs: 0,
+  };
+};
+
+export const exportExtractionJob = async (job: ExtractionJob, format: 'csv' | 'xlsx') => {
+  const result = await loadExtractionResult(job);
+  const baseName = job.name.replace(/[^\w.-]+/g, '_') || 'extraction';
+  if (format === 'xlsx') exportToXLSX(result, `${baseName}.xlsx`);
+  else exportToCSV(result, `${baseName}.csv`);
+};
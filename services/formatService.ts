@@ -0,0 +1,153 @@
+import { ColumnMeta, ColumnType, DisplayFormat } from '../types';
+
+const DISPLAY_FORMAT_KEY = 'duckoracle_display_format';
+const INFERENCE_SAMPLE_SIZE = 1000;
+
+export const DEFAULT_DISPLAY_FORMAT: DisplayFormat = {
+  dateFormat: 'iso',
+  numberFormat: 'raw',
+};
+
+// BI Publisher emits numbers as plain decimals and dates as ISO-8601 (e.g. 2024-01-15T00:00:00.000+00:00)
+const NUMBER_PATTERN = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const BOOLEAN_VALUES = new Set(['Y', 'N', 'TRUE', 'FALSE']);
+// A double holds 15 significant digits exactly; longer integer parts (e.g. 18-digit IDs) would be rounded
+const MAX_EXACT_DIGITS = 15;
+
+/**
+ * True when Number() would round the integer part of a numeric string.
+ */
+const losesPrecision = (value: string): boolean =>
+  value.replace(/^-/, '').split(/[.eE]/)[0].replace(/^0+/, '').length > MAX_EXACT_DIGITS;
+
+// --- Type Inference ---
+
+const inferType = (values: string[]): ColumnType => {
+  if (values.length === 0) return 'text';
+
+  // Leading zeros (codes, zero-padded IDs) and long IDs must stay text so they survive sorting and export
+  if (values.every(v => NUMBER_PATTERN.test(v) && !/^-?0\d/.test(v) && !losesPrecision(v))) return 'number';
+
+  const dates = values.map(v => v.match(ISO_DATE_PATTERN));
+  if (dates.every(Boolean)) {
+    const hasTime = dates.some(m => (m![4] && m![4] !== '00') || (m![5] && m![5] !== '00') || (m![6] && m![6] !== '00'));
+    return hasTime ? 'timestamp' : 'date';
+  }
+
+  if (values.every(v => BOOLEAN_VALUES.has(v.toUpperCase()))) return 'boolean';
+  return 'text';
+};
+
+/**
+ * Infers a type for each column from (a sample of) its non-empty values.
+ */
+export const inferColumnTypes = (columns: string[], rows: Record<string, string>[]): ColumnMeta[] => {
+  return columns.map(name => {
+    const values: string[] = [];
+    for (let i = 0; i < rows.length && values.length < INFERENCE_SAMPLE_SIZE; i++) {
+      const v = rows[i][name];
+      if (v !== undefined && v !== '') values.push(v.trim());
+    }
+    return { name, type: inferType(values) };
+  });
+};
+
+// --- Typed Values ---
+
+/**
+ * Parses the wall-clock parts of an ISO date string as a local Date (the offset is ignored
+ * so a DATE column never shifts by a day in the viewer's timezone).
+ */
+export const parseDateValue = (value: string): Date | null => {
+  const m = value.trim().match(ISO_DATE_PATTERN);
+  if (!m) return null;
+  return new Date(+m[1], +m[2] - 1, +m[3], +(m[4] || 0), +(m[5] || 0), +(m[6] || 0));
+};
+
+/**
+ * Converts a raw cell to its native JS value for the column type (used by exports).
+ */
+export const toTypedValue = (value: string | undefined, type: ColumnType): string | number | Date | null => {
+  if (value === undefined || value === '') return null;
+  switch (type) {
+    case 'number': {
+      // Rows past the inference sample can still hold long IDs
+      if (losesPrecision(value)) return value;
+      const n = Number(value);
+      return isNaN(n) ? value : n;
+    }
+    case 'date':
+    case 'timestamp':
+      return parseDateValue(value) || value;
+    default:
+      return value;
+  }
+};
+
+/**
+ * Comparator for sorting raw cell values by column type. Empty values sort last.
+ */
+export const compareValues = (a: string | undefined, b: string | undefined, type: ColumnType): number => {
+  const emptyA = a === undefined || a === '';
+  const emptyB = b === undefined || b === '';
+  if (emptyA || emptyB) return emptyA === emptyB ? 0 : emptyA ? 1 : -1;
+
+  switch (type) {
+    case 'number':
+      // Numeric collation compares digit runs exactly where Number() would round
+      if (losesPrecision(a!) || losesPrecision(b!)) return a!.localeCompare(b!, undefined, { numeric: true });
+      return Number(a) - Number(b);
+    case 'date':
+    case 'timestamp':
+      return (parseDateValue(a!)?.getTime() || 0) - (parseDateValue(b!)?.getTime() || 0);
+    default:
+      return a!.localeCompare(b!, undefined, { sensitivity: 'base' });
+  }
+};
+
+// --- Display Formatting ---
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Formats a raw cell for display according to the column type and user preferences.
+ */
+export const formatValue = (value: string | undefined, type: ColumnType, format: DisplayFormat): string => {
+  if (value === undefined || value === '') return '';
+
+  if (type === 'number' && format.numberFormat === 'grouped' && !losesPrecision(value)) {
+    const n = Number(value);
+    if (isNaN(n)) return value;
+    // toLocaleString accepts 0..20 fraction digits; Oracle returns up to 40 (e.g. 1/3)
+    const decimals = Math.min(value.includes('.') ? value.split('.')[1].length : 0, 20);
+    return n.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+  }
+
+  if ((type === 'date' || type === 'timestamp') && format.dateFormat !== 'raw') {
+    const d = parseDateValue(value);
+    if (!d) return value;
+    if (format.dateFormat === 'locale') {
+      return type === 'date' ? d.toLocaleDateString() : d.toLocaleString();
+    }
+    const day = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+    return type === 'date' ? day : `${day} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+  }
+
+  return value;
+};
+
+// --- Preferences ---
+
+export const loadDisplayFormat = (): DisplayFormat => {
+  try {
+    const stored = localStorage.getItem(DISPLAY_FORMAT_KEY);
+    return stored ? { ...DEFAULT_DISPLAY_FORMAT, ...JSON.parse(stored) } : DEFAULT_DISPLAY_FORMAT;
+  } catch (e) {
+    return DEFAULT_DISPLAY_FORMAT;
+  }
+};
+
+export const saveDisplayFormat = (format: DisplayFormat) => {
+  localStorage.setItem(DISPLAY_FORMAT_KEY, JSON.stringify(format));
+};
@@ -0,0 +1,42 @@
+import { ConnectionConfig, HistoryItem, HistoryRetention } from '../types';
+import { addHistoryItem } from './dbService';
+
+const RETENTION_KEY = 'duckoracle_history_retention';
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = { maxEntries: 2000, maxAgeDays: 90 };
+
+export const loadHistoryRetention = (): HistoryRetention => {
+  try {
+    const stored = localStorage.getItem(RETENTION_KEY);
+    return stored ? { ...DEFAULT_HISTORY_RETENTION, ...JSON.parse(stored) } : DEFAULT_HISTORY_RETENTION;
+  } catch (e) {
+    return DEFAULT_HISTORY_RETENTION;
+  }
+};
+
+export const saveHistoryRetention = (retention: HistoryRetention) => {
+  localStorage.setItem(RETENTION_KEY, JSON.stringify(retention));
+};
+
+/**
+ * Logs one execution and applies the retention limits. Never throws: a failed write
+ * must not turn a successful query into an error.
+ */
+export const recordExecution = async (
+  config: ConnectionConfig,
+  entry: Omit<HistoryItem, 'id' | 'connectionId' | 'timestamp'> & { timestamp?: number }
+): Promise<HistoryItem | null> => {
+  const item: HistoryItem = {
+    id: Math.random().toString(36).substring(2) + Date.now().toString(36),
+    connectionId: config.id,
+    timestamp: Date.now(),
+    ...entry,
+  };
+  try {
+    await addHistoryItem(item, loadHistoryRetention());
+    return item;
+  } catch (e) {
+    console.error('Failed to record query history', e);
+    return null;
+  }
+};
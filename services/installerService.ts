@@ -0,0 +1,225 @@
+import { ConnectionConfig } from '../types';
+import { CATALOG_SERVICE_PATH, COMPRESSION_PARAM } from '../constants';
+import { sendSoapRequest, buildServiceEnvelope, getElementText, bytesToBase64, escapeXml, MAX_CHUNKS } from './soapService';
+
+export interface InstallOptions {
+  folder: string; // Catalog folder, e.g. /Custom/SQL Runner (created when missing)
+  name: string; // Base name of the .xdm and .xdo objects
+  dataSource: string; // JDBC data source, e.g. ApplicationDB_HCM or ApplicationDB_FSCM
+}
+
+export const DEFAULT_INSTALL_OPTIONS: InstallOptions = {
+  folder: '/Custom/SQL Runner',
+  name: 'SQLRunner',
+  dataSource: 'ApplicationDB_HCM',
+};
+
+const SQL_PARAMETERS = Array.from({ length: MAX_CHUNKS }, (_, i) => `q${i + 1}`);
+
+// Base64 characters decoded per step: a multiple of 4, so each piece decodes on its own
+const DECODE_STEP = 8000;
+
+/**
+ * Data model SQL: decodes q1..q9 (gunzipping when enc = 'gzip') and returns the rows of the
+ * decoded statement as DBMS_XMLGEN ROWSET/ROW XML, which parseOracleXML unwraps.
+ * Decoding runs in an inline PL/SQL function building LOBs, because plain SQL caps RAW at
+ * 2000 bytes and VARCHAR2 at 4000 bytes.
+ */
+const buildRunnerSql = () => `WITH
+  FUNCTION run_sql(${SQL_PARAMETERS.map(p => `p_${p} VARCHAR2`).join(', ')}, p_enc VARCHAR2) RETURN XMLTYPE IS
+    l_base64 CLOB;
+    l_bytes BLOB;
+    l_sql CLOB;
+    l_piece RAW(32767);
+    l_pos PLS_INTEGER := 1;
+    l_dest INTEGER := 1;
+    l_src INTEGER := 1;
+    l_lang INTEGER := DBMS_LOB.DEFAULT_LANG_CTX;
+    l_warning INTEGER;
+    l_ctx DBMS_XMLGEN.CTXHANDLE;
+    l_xml XMLTYPE;
+    PROCEDURE add_chunk(p_chunk VARCHAR2) IS
+    BEGIN
+      IF p_chunk IS NOT NULL THEN DBMS_LOB.WRITEAPPEND(l_base64, LENGTH(p_chunk), p_chunk); END IF;
+    END;
+  BEGIN
+    DBMS_LOB.CREATETEMPORARY(l_base64, TRUE);
+    DBMS_LOB.CREATETEMPORARY(l_bytes, TRUE);
+    DBMS_LOB.CREATETEMPORARY(l_sql, TRUE);
+${SQL_PARAMETERS.map(p => `    add_chunk(p_${p});`).join('\n')}
+    WHILE l_pos <= DBMS_LOB.GETLENGTH(l_base64) LOOP
+      l_piece := UTL_ENCODE.BASE64_DECODE(UTL_RAW.CAST_TO_RAW(DBMS_LOB.SUBSTR(l_base64, ${DECODE_STEP}, l_pos)));
+      DBMS_LOB.WRITEAPPEND(l_bytes, UTL_RAW.LENGTH(l_piece), l_piece);
+      l_pos := l_pos + ${DECODE_STEP};
+    END LOOP;
+    IF p_enc = 'gzip' THEN
+      l_bytes := UTL_COMPRESS.LZ_UNCOMPRESS(l_bytes);
+    END IF;
+    DBMS_LOB.CONVERTTOCLOB(l_sql, l_bytes, DBMS_LOB.LOBMAXSIZE, l_dest, l_src, NLS_CHARSET_ID('AL32UTF8'), l_lang, l_warning);
+    l_ctx := DBMS_XMLGEN.NEWCONTEXT(l_sql);
+    l_xml := DBMS_XMLGEN.GETXMLTYPE(l_ctx);
+    DBMS_XMLGEN.CLOSECONTEXT(l_ctx);
+    RETURN l_xml;
+  END;
+SELECT run_sql(${SQL_PARAMETERS.map(p => `:${p}`).join(', ')}, :${COMPRESSION_PARAM}) AS RESULT
+FROM DUAL`;
+
+export const buildDataModelXml = (dataSource: string) => `<?xml version = '1.0' encoding = 'utf-8'?>
+<dataModel xmlns="http://xmlns.oracle.com/oxp/xmlp" version="2.0" xmlns:xdm="http://xmlns.oracle.com/oxp/xmlp" xmlns:xsd="http://www.w3.org/2001/XMLSchema" defaultDataSourceRef="${escapeXml(dataSource)}">
+   <description><![CDATA[SQL runner: executes the Base64 (optionally gzipped) SQL passed in q1..q9]]></description>
+   <dataProperties>
+      <property name="include_parameters" value="false"/>
+      <property name="include_null_Element" value="false"/>
+      <property name="include_rowsettag" value="false"/>
+      <property name="exclude_tags_for_lob" value="false"/>
+      <property name="xml_tag_case" value="upper"/>
+   </dataProperties>
+   <dataSets>
+      <dataSet name="RUNNER" type="complex">
+         <sql dataSourceRef="${escapeXml(dataSource)}" nsQuery="true"><![CDATA[${buildRunnerSql()}]]></sql>
+      </dataSet>
+   </dataSets>
+   <output rootName="DATA_DS" uniqueRowName="false">
+      <nodeList name="RUNNER"/>
+   </output>
+   <eventTriggers/>
+   <lexicals/>
+   <valueSets/>
+   <parameters>
+${[...SQL_PARAMETERS, COMPRESSION_PARAM].map((p, i) => `      <parameter name="${p}" dataType="xsd:string" rowPlacement="${i + 1}">
+         <input label="${p}"/>
+      </parameter>`).join('\n')}
+   </parameters>
+   <bursting/>
+   <display>
+      <layouts/>
+      <group/>
+   </display>
+</dataModel>`;
+
+export const buildReportXml = (dataModelPath: string) => `<?xml version = '1.0' encoding = 'utf-8'?>
+<report xmlns="http://xmlns.oracle.com/oxp/xmlp" xmlns:xsd="http://www.w3.org/2001/XMLSchema" version="2.0" dataModel="true" useBIPParameters="true" cacheDocument="false">
+   <dataModel url="${escapeXml(dataModelPath)}"/>
+   <description>SQL runner report (data only, no layout)</description>
+   <property name="showControls" value="false"/>
+   <property name="online" value="true"/>
+   <property name="autoRun" value="false"/>
+   <property name="cacheDocument" value="false"/>
+   <property name="asynchronousMode" value="false"/>
+   <templates/>
+</report>`;
+
+// --- Minimal ZIP writer (stored entries, no compression) for the .xdmz/.xdoz archives ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createZip = (files: { name: string; content: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    // 1. Local file header + data
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(8, 0, true); // Stored
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    localParts.push(new Uint8Array(local.buffer), name, data);
+
+    // 2. Central directory entry pointing at it
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true); // Version needed
+    central.setUint16(10, 0, true); // Stored
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  // 3. End of central directory
+  const centralSize = centralParts.reduce((sum, p) => sum + p.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+};
+
+const callCatalogService = (config: ConnectionConfig, operation: string, body: string) =>
+  sendSoapRequest(config, CATALOG_SERVICE_PATH, buildServiceEnvelope(operation, body, config));
+
+const uploadObject = async (config: ConnectionConfig, path: string, objectType: 'xdmz' | 'xdoz', zip: Uint8Array) => {
+  const doc = await callCatalogService(config, 'uploadObject', `<v2:reportObjectAbsolutePathURL>${escapeXml(path)}</v2:reportObjectAbsolutePathURL>
+                <v2:objectType>${objectType}</v2:objectType>
+                <v2:objectZippedData>${bytesToBase64(zip)}</v2:objectZippedData>`);
+  return (getElementText(doc, 'uploadObjectReturn') || '').trim() || path;
+};
+
+/**
+ * Creates the folder, then uploads the runner data model and the report that uses it.
+ * Returns the catalog path of the report, to be stored as the connection's reportPath.
+ */
+export const installSqlRunner = async (
+  config: ConnectionConfig,
+  options: InstallOptions,
+  onProgress: (message: string) => void
+): Promise<string> => {
+  const folder = options.folder.trim().replace(/\/+$/, '');
+  const name = options.name.trim();
+  if (!folder.startsWith('/') || !name) {
+    throw new Error('Enter an absolute catalog folder (e.g. /Custom/SQL Runner) and a report name.');
+  }
+
+  // 1. Target folder (an "already exists" fault is expected on reinstall)
+  onProgress(`Creating folder ${folder}...`);
+  try {
+    await callCatalogService(config, 'createFolder', `<v2:folderAbsolutePath>${escapeXml(folder)}</v2:folderAbsolutePath>`);
+  } catch (err: any) {
+    if (!/exist/i.test(err.message || '')) throw err;
+  }
+
+  // 2. Data model
+  onProgress('Uploading data model...');
+  const dataModelPath = await uploadObject(config, `${folder}/${name}.xdm`, 'xdmz',
+    createZip([{ name: '_datamodel.xdm', content: buildDataModelXml(options.dataSource.trim()) }]));
+
+  // 3. Report bound to the data model
+  onProgress('Uploading report...');
+  return uploadObject(config, `${folder}/${name}.xdo`, 'xdoz',
+    createZip([{ name: '_report.xdo', content: buildReportXml(dataModelPath) }]));
+};
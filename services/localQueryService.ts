@@ -0,0 +1,77 @@
+import { QueryResult } from '../types';
+import { replaceScratchTable, execScratch } from './dbService';
+import { inferColumnTypes } from './formatService';
+
+/**
+ * SQLite table name for a tab, e.g. "Query 1" -> query_1.
+ */
+export const toTableName = (label: string): string => {
+  const name = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!name) return 'result';
+  return /^[0-9]/.test(name) ? `t_${name}` : name;
+};
+
+/**
+ * The name itself when free, else the first free name_2, name_3...
+ */
+export const uniqueTableName = (name: string, taken: string[]): string => {
+  let candidate = name;
+  for (let i = 2; taken.includes(candidate); i++) candidate = `${name}_${i}`;
+  return candidate;
+};
+
+/**
+ * Copies a result set into a scratch table. Number columns get NUMERIC affinity so SUM/AVG/ORDER BY
+ * behave numerically; dates stay ISO text, which sorts and compares correctly. Empty values become NULL.
+ */
+export const loadResultTable = async (tableName: string, result: QueryResult): Promise<number> => {
+  if (result.columns.length === 0) throw new Error('The result has no columns to load.');
+  const columnMeta = result.columnMeta || inferColumnTypes(result.columns, result.rows);
+  const columns = columnMeta.map(meta => ({ name: meta.name, type: meta.type === 'number' ? 'NUMERIC' : 'TEXT' }));
+
+  const rows = result.rows.map(row => columnMeta.map(meta => {
+    const value = row[meta.name];
+    if (value === undefined || value === '') return null;
+    if (meta.type === 'number') {
+      const n = Number(value);
+      return Number.isFinite(n) ? n : value;
+    }
+    return value;
+  }));
+
+  await replaceScratchTable(tableName, columns, rows);
+  return rows.length;
+};
+
+/**
+ * Runs SQLite SQL over the loaded result tables and returns the output like an Oracle result.
+ */
+export const runLocalQuery = async (sql: string): Promise<QueryResult> => {
+  const started = performance.now();
+  const { columns: rawColumns, values } = await execScratch(sql);
+
+  // 1. Joins over SELECT * repeat column names: keep them apart (ID, ID_2, ...)
+  const seen = new Map<string, number>();
+  const columns = rawColumns.map(name => {
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name}_${count}`;
+  });
+
+  // 2. Values are displayed as text, like the XML returned by BI Publisher
+  const rows = values.map(valueRow => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      const value = valueRow[i];
+      row[column] = value === null ? '' : value instanceof Uint8Array ? `[BLOB ${value.length} bytes]` : String(value);
+    });
+    return row;
+  });
+
+  return {
+    columns,
+    rows,
+    columnMeta: inferColumnTypes(columns, rows),
+    executionTimeMs: Math.round(performance.now() - started),
+  };
+};
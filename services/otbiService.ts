@@ -0,0 +1,218 @@
+import { ConnectionConfig, QueryResult } from '../types';
+import { OTBI_SESSION_SERVICE_PATH, OTBI_XMLVIEW_SERVICE_PATH } from '../constants';
+import { sendSoapRequest, getElementText, escapeXml, QueryExecutionOptions } from './soapService';
+import { OracleQueryError, SoapFaultError } from './errors';
+import { substituteBindVariables } from './sqlParser';
+import { inferColumnTypes } from './formatService';
+import { withRetry } from './retryService';
+
+// Analytics sessions are reused across queries (keyed by connection and user)
+const sessions = new Map<string, string>();
+
+const sessionKey = (config: ConnectionConfig) => `${config.id}|${config.url}|${config.username}`;
+
+/**
+ * Forgets every analytics session (the vault was locked).
+ */
+export const clearSessions = () => {
+  sessions.clear();
+};
+
+const envelope = (operation: string, body: string) => `<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:v6="urn://oracle.bi.webservices/v6">
+        <soapenv:Header/>
+        <soapenv:Body>
+            <v6:${operation}>
+                ${body}
+            </v6:${operation}>
+        </soapenv:Body>
+      </soapenv:Envelope>`;
+
+// Generic wrapper codes; the specific cause follows them in the message
+const WRAPPER_NQS_CODES = new Set(['43113', '43119', '43224']);
+
+/**
+ * Turns an "[nQSError: 27005] Unresolved column..." fault into a structured error.
+ */
+const toLogicalSqlError = (message: string, faultText: string): Error => {
+  const regex = /\[nQSError:\s*(\d+)\]\s*([^[]*)/g;
+  let match;
+  while ((match = regex.exec(faultText)) !== null) {
+    if (!WRAPPER_NQS_CODES.has(match[1])) {
+      return new OracleQueryError(message, `nQSError ${match[1]}`, match[2].trim());
+    }
+  }
+  return new SoapFaultError(message, faultText);
+};
+
+const isSessionError = (err: any) => /session/i.test(err?.message || '') && !(err instanceof OracleQueryError);
+
+/**
+ * Logs on to nQSessionService and caches the session id.
+ */
+const getSession = async (config: ConnectionConfig, signal?: AbortSignal): Promise<string> => {
+  const cached = sessions.get(sessionKey(config));
+  if (cached) return cached;
+  if (config.authMode === 'bearer') {
+    throw new Error('OTBI connections log on with a username and password. Switch the authentication away from bearer tokens in Settings.');
+  }
+
+  const doc = await sendSoapRequest(config, OTBI_SESSION_SERVICE_PATH, envelope('logon', `
+                <v6:name>${escapeXml(config.username)}</v6:name>
+                <v6:password>${escapeXml(config.password)}</v6:password>`), signal);
+  const sessionId = getElementText(doc, 'sessionID');
+  if (!sessionId) {
+    throw new Error("No 'sessionID' in the nQSessionService logon response. Check the username, password and analytics URL.");
+  }
+  sessions.set(sessionKey(config), sessionId.trim());
+  return sessionId.trim();
+};
+
+/**
+ * Logs on again, bypassing the cached session (used by the connection test).
+ */
+export const verifyLogon = async (config: ConnectionConfig, signal?: AbortSignal): Promise<void> => {
+  sessions.delete(sessionKey(config));
+  await getSession(config, signal);
+};
+
+interface RowsetPage {
+  columns: string[];
+  rows: Record<string, string>[];
+  queryId: string;
+  finished: boolean;
+}
+
+/**
+ * Parses a SAWRowsetData page. Column headings come from the rowset schema (first page only),
+ * so later pages reuse the columns of the first one.
+ */
+const parseRowsetPage = (doc: Document, columns: string[]): RowsetPage => {
+  const queryId = (getElementText(doc, 'queryID') || '').trim();
+  const finished = (getElementText(doc, 'finished') || '').trim().toLowerCase() === 'true';
+  const rowsetXml = getElementText(doc, 'rowset');
+  if (!rowsetXml) return { columns, rows: [], queryId, finished };
+
+  const rowset = new DOMParser().parseFromString(rowsetXml, 'text/xml');
+  if (rowset.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Error parsing the rowset returned by XmlViewService.');
+  }
+
+  // 1. Column0..ColumnN -> "Presentation Column" headings from the schema
+  const elementNames: string[] = [];
+  let headings: string[] = [];
+  const elements = rowset.getElementsByTagNameNS('*', 'element');
+  for (let i = 0; i < elements.length; i++) {
+    const name = elements[i].getAttribute('name');
+    if (!name || !/^Column\d+$/.test(name)) continue;
+    elementNames.push(name);
+    headings.push(elements[i].getAttribute('saw-sql:columnHeading') || name);
+  }
+  if (elementNames.length === 0) {
+    headings = columns;
+  } else {
+    // Same heading in two presentation tables: keep them apart
+    headings = headings.map((h, i) => headings.indexOf(h) === i ? h : `${h} (${i})`);
+  }
+
+  // 2. <Row><Column0>..</Column0></Row>; missing cells are nulls
+  const rows: Record<string, string>[] = [];
+  const rowNodes = rowset.getElementsByTagNameNS('*', 'Row');
+  for (let i = 0; i < rowNodes.length; i++) {
+    const row: Record<string, string> = {};
+    headings.forEach((heading, c) => {
+      row[heading] = getElementText(rowNodes[i], elementNames[c] || `Column${c}`) || '';
+    });
+    rows.push(row);
+  }
+
+  return { columns: headings, rows, queryId, finished };
+};
+
+/**
+ * Runs logical SQL against the OTBI subject areas through XmlViewService.executeSQLQuery,
+ * fetching further pages with fetchNext until the requested window is covered.
+ */
+const runLogicalSql = async (
+  sql: string,
+  config: ConnectionConfig,
+  needed: number,
+  signal?: AbortSignal
+): Promise<{ columns: string[]; rows: Record<string, string>[]; finished: boolean; rawXml: string }> => {
+  const sessionId = await getSession(config, signal);
+
+  // 1. First page
+  let doc = await sendSoapRequest(config, OTBI_XMLVIEW_SERVICE_PATH, envelope('executeSQLQuery', `
+                <v6:sql>${escapeXml(sql)}</v6:sql>
+                <v6:outputFormat>SAWRowsetData</v6:outputFormat>
+                <v6:executionOptions>
+                    <v6:async>false</v6:async>
+                    <v6:maxRowsPerPage>${needed}</v6:maxRowsPerPage>
+                    <v6:refresh>true</v6:refresh>
+                    <v6:presentationInfo>true</v6:presentationInfo>
+                    <v6:type>query</v6:type>
+                </v6:executionOptions>
+                <v6:sessionID>${sessionId}</v6:sessionID>`), signal, toLogicalSqlError);
+  let page = parseRowsetPage(doc, []);
+  const columns = page.columns;
+  const rows = [...page.rows];
+  const rawXml = getElementText(doc, 'rowset') || '';
+
+  // 2. The server may cap the page size: keep fetching until the window is covered
+  while (!page.finished && rows.length < needed && page.queryId) {
+    doc = await sendSoapRequest(config, OTBI_XMLVIEW_SERVICE_PATH, envelope('fetchNext', `
+                <v6:queryID>${page.queryId}</v6:queryID>
+                <v6:sessionID>${sessionId}</v6:sessionID>`), signal, toLogicalSqlError);
+    page = parseRowsetPage(doc, columns);
+    rows.push(...page.rows);
+  }
+
+  // 3. Release the server-side cursor of an unfinished query
+  if (!page.finished && page.queryId) {
+    sendSoapRequest(config, OTBI_XMLVIEW_SERVICE_PATH, envelope('cancelQuery', `
+                <v6:queryID>${page.queryId}</v6:queryID>
+                <v6:sessionID>${sessionId}</v6:sessionID>`)).catch(() => {});
+  }
+
+  return { columns, rows, finished: page.finished, rawXml };
+};
+
+/**
+ * Executes logical SQL (e.g. SELECT "Worker"."Person Number" FROM "Workforce Management - ...")
+ * and returns the same QueryResult shape as the BIP path, including paging state.
+ */
+export const executeLogicalSqlQuery = async (
+  query: string,
+  config: ConnectionConfig,
+  rowLimit: number,
+  options: QueryExecutionOptions = {}
+): Promise<QueryResult> => {
+  const startTime = performance.now();
+  const offset = Math.max(0, options.offset || 0);
+  const sql = (options.bindValues ? substituteBindVariables(query, options.bindValues) : query).trim().replace(/;+$/, '');
+
+  // Logical SQL has no row wrapper here: fetch up to the end of the page plus one look-ahead row
+  const needed = offset + rowLimit + 1;
+
+  // Transient failures are retried per the connection's policy, like the BIP path
+  const { value: output, attempts } = await withRetry(config, options.signal, async () => {
+    try {
+      return await runLogicalSql(sql, config, needed, options.signal);
+    } catch (err) {
+      if (!isSessionError(err)) throw err;
+      // Expired or invalid session: log on again once
+      sessions.delete(sessionKey(config));
+      return await runLogicalSql(sql, config, needed, options.signal);
+    }
+  });
+
+  const rows = output.rows.slice(offset, offset + rowLimit);
+  return {
+    columns: output.columns,
+    columnMeta: inferColumnTypes(output.columns, rows),
+    rows,
+    rawXml: output.rawXml,
+    executionTimeMs: Math.round(performance.now() - startTime),
+    paging: { offset, pageSize: rowLimit, hasMore: output.rows.length > offset + rowLimit },
+    attempts: attempts.length > 1 ? attempts : undefined,
+  };
+};
@@ -0,0 +1,17 @@
+import { ConnectionConfig, QueryResult } from '../types';
+import { executeSoapQuery, QueryExecutionOptions } from './soapService';
+import { executeLogicalSqlQuery } from './otbiService';
+
+/**
+ * Runs a query on the connection's execution path: physical SQL through the BIP data model,
+ * or logical SQL through the OTBI XmlViewService. Both return the same QueryResult.
+ */
+export const executeQuery = (
+  query: string,
+  config: ConnectionConfig,
+  rowLimit: number,
+  options: QueryExecutionOptions = {}
+): Promise<QueryResult> =>
+  config.connectionType === 'otbi'
+    ? executeLogicalSqlQuery(query, config, rowLimit, options)
+    : executeSoapQuery(query, config, rowLimit, options);
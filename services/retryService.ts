@@ -0,0 +1,91 @@
+import { ConnectionConfig, QueryAttempt } from '../types';
+import { QueryAbortedError, ServiceError } from './errors';
+
+export const DEFAULT_MAX_RETRIES = 2;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export interface RetryOutcome<T> {
+  value: T;
+  attempts: QueryAttempt[]; // One entry per try, the last one successful
+}
+
+/**
+ * Only failures that may clear up on their own are retried: dropped connections and
+ * gateway/throttling statuses. Auth, SOAP faults, ORA errors, timeouts and cancellation are final.
+ */
+export const isTransientError = (error: unknown): boolean =>
+  error instanceof ServiceError && error.transient;
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed, the other half random,
+ * so parallel tabs retrying the same pod do not hit it in lockstep.
+ */
+export const getRetryDelay = (retry: number, baseDelayMs: number): number => {
+  const exponential = Math.min(MAX_RETRY_DELAY_MS, baseDelayMs * 2 ** (retry - 1));
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const cancelled = () => new QueryAbortedError('cancelled', 'Query cancelled by user.');
+  if (signal?.aborted) {
+    reject(cancelled());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs the operation, retrying transient failures with backoff per the connection's retry policy.
+ * The attempt log is returned with the value, or attached to the final error as `attempts`.
+ */
+export const withRetry = async <T,>(
+  config: ConnectionConfig,
+  signal: AbortSignal | undefined,
+  operation: () => Promise<T>
+): Promise<RetryOutcome<T>> => {
+  const maxRetries = Math.max(0, config.maxRetries ?? DEFAULT_MAX_RETRIES);
+  const baseDelayMs = Math.max(0, config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS);
+  const attempts: QueryAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    try {
+      const value = await operation();
+      attempts.push({ attempt, startedAt, durationMs: Date.now() - startedAt });
+      return { value, attempts };
+    } catch (error: any) {
+      const entry: QueryAttempt = {
+        attempt,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        error: error?.message || String(error),
+        errorKind: error instanceof ServiceError ? error.kind : undefined,
+      };
+      attempts.push(entry);
+
+      // 1. Final failure: hand the log to the caller with the error
+      if (attempt > maxRetries || !isTransientError(error) || signal?.aborted) {
+        if (attempts.length > 1 && error && typeof error === 'object') error.attempts = attempts;
+        throw error;
+      }
+
+      // 2. Back off before the next attempt (the Stop button interrupts the wait)
+      entry.retryDelayMs = getRetryDelay(attempt, baseDelayMs);
+      try {
+        await sleep(entry.retryDelayMs, signal);
+      } catch (abortError: any) {
+        abortError.attempts = attempts;
+        throw abortError;
+      }
+    }
+  }
+};
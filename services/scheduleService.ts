@@ -0,0 +1,196 @@
+import { ConnectionConfig, QueryResult, ScheduledRun } from '../types';
+import { SCHEDULE_SERVICE_PATH } from '../constants';
+import { prepareQuery, sendSoapRequest, buildServiceEnvelope, buildReportAttributes, getElementText, parseReportOutput, escapeXml, getReportPath } from './soapService';
+import { HttpError, NetworkError, QueryAbortedError } from './errors';
+import { withRetry } from './retryService';
+import { saveScheduledRun } from './dbService';
+
+// Delay between getScheduledReportStatus calls
+const POLL_INTERVAL_MS = 5000;
+
+// jobStatus values reported by ScheduleService (compared case-insensitively)
+const SUCCESS_STATUSES = ['success', 'completed'];
+const FAILED_STATUSES = ['failed', 'error', 'problem', 'canceled', 'cancelled', 'skipped'];
+
+// Runs currently polled in this browser tab (keyed by run id)
+const pollingRuns = new Map<string, AbortController>();
+
+export const isRunPolling = (runId: string): boolean => pollingRuns.has(runId);
+
+const callScheduleService = (config: ConnectionConfig, operation: string, body: string, signal?: AbortSignal) =>
+  sendSoapRequest(config, SCHEDULE_SERVICE_PATH, buildServiceEnvelope(operation, body, config), signal);
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new QueryAbortedError('cancelled', 'Polling stopped.'));
+  }, { once: true });
+});
+
+/**
+ * Submits the query through ScheduleService.scheduleReport with the same chunked
+ * q1..q9 parameters as runReport. Returns the stored run in 'submitted' state.
+ */
+export const submitScheduledRun = async (
+  query: string,
+  config: ConnectionConfig,
+  rowLimit: number,
+  name: string,
+  bindValues?: ScheduledRun['bindValues']
+): Promise<ScheduledRun> => {
+  // 1. Same parameters (bind substitution, wrapper, encoding, size check) as a synchronous run
+  const { parametersXml, toFaultError } = await prepareQuery(query, config, rowLimit, { bindValues });
+
+  // 2. Schedule the report to run once, immediately, keeping its data for download
+  const body = `<v2:scheduleRequest>
+                    <v2:reportRequest>
+                        ${buildReportAttributes(config)}
+                        <v2:byPassCache>True</v2:byPassCache>
+                        <v2:flattenXML>True</v2:flattenXML>
+                        <v2:reportAbsolutePath>${escapeXml(getReportPath(config))}</v2:reportAbsolutePath>
+                        <v2:parameterNameValues>
+                           <v2:listOfParamNameValues>
+                              ${parametersXml}
+                           </v2:listOfParamNameValues>
+                        </v2:parameterNameValues>
+                    </v2:reportRequest>
+                    <v2:saveDataOption>true</v2:saveDataOption>
+                    <v2:saveOutputOption>true</v2:saveOutputOption>
+                    <v2:scheduleBurstringOption>false</v2:scheduleBurstringOption>
+                    <v2:userJobName>${escapeXml(name)}</v2:userJobName>
+                </v2:scheduleRequest>`;
+  const doc = await sendSoapRequest(
+    config, SCHEDULE_SERVICE_PATH, buildServiceEnvelope('scheduleReport', body, config), undefined, toFaultError
+  );
+
+  const jobId = getElementText(doc, 'scheduleReportReturn');
+  if (!jobId) {
+    throw new Error("No job id ('scheduleReportReturn') in the ScheduleService response.");
+  }
+
+  const run: ScheduledRun = {
+    id: Math.random().toString(36).substring(2) + Date.now().toString(36),
+    connectionId: config.id,
+    jobId: jobId.trim(),
+    name,
+    query,
+    bindValues,
+    rowLimit,
+    status: 'submitted',
+    submittedAt: Date.now(),
+  };
+  await saveScheduledRun(run);
+  return run;
+};
+
+/**
+ * Downloads the data of a finished job: first instance -> first output -> document bytes.
+ */
+const downloadRunOutput = async (run: ScheduledRun, config: ConnectionConfig, signal: AbortSignal): Promise<QueryResult> => {
+  const instancesDoc = await callScheduleService(config, 'getAllJobInstanceIDs',
+    `<v2:scheduledJobID>${run.jobId}</v2:scheduledJobID>`, signal);
+  const instanceId = getElementText(instancesDoc, 'item') || getElementText(instancesDoc, 'getAllJobInstanceIDsReturn');
+  if (!instanceId) throw new Error(`Job ${run.jobId} finished but has no job instance.`);
+
+  const outputsDoc = await callScheduleService(config, 'getScheduledReportOutputInfo',
+    `<v2:jobInstanceID>${instanceId.trim()}</v2:jobInstanceID>`, signal);
+  const outputId = getElementText(outputsDoc, 'outputId');
+  if (!outputId) throw new Error(`Job ${run.jobId} finished but produced no output.`);
+
+  const dataDoc = await callScheduleService(config, 'getDocumentData',
+    `<v2:jobOutputID>${outputId.trim()}</v2:jobOutputID>`, signal);
+  const base64Data = getElementText(dataDoc, 'getDocumentDataReturn');
+  if (!base64Data) throw new Error(`Output ${outputId} of job ${run.jobId} is empty.`);
+
+  return parseReportOutput(base64Data.trim(), run.rowLimit);
+};
+
+/**
+ * Polls the job status until it finishes, then downloads and stores the output.
+ * Resolves with the final run; returns quietly when polling is stopped.
+ */
+export const pollScheduledRun = async (
+  initial: ScheduledRun,
+  config: ConnectionConfig,
+  onUpdate: (run: ScheduledRun, result?: QueryResult) => void
+): Promise<ScheduledRun> => {
+  if (pollingRuns.has(initial.id)) return initial;
+
+  const controller = new AbortController();
+  pollingRuns.set(initial.id, controller);
+  let run = initial;
+
+  const update = async (changes: Partial<ScheduledRun>, result?: QueryResult) => {
+    run = { ...run, ...changes };
+    await saveScheduledRun(run, result);
+    onUpdate(run, result);
+  };
+
+  try {
+    while (true) {
+      // 1. Ask ScheduleService for the job status (transient failures are retried per the connection's policy)
+      const { value: statusDoc } = await withRetry(config, controller.signal, () => callScheduleService(config, 'getScheduledReportStatus',
+        `<v2:scheduledJobID>${run.jobId}</v2:scheduledJobID>`, controller.signal));
+      const serverStatus = (getElementText(statusDoc, 'jobStatus') || '').trim();
+      const normalized = serverStatus.toLowerCase();
+
+      if (SUCCESS_STATUSES.includes(normalized)) {
+        // 2. Finished: download the data
+        const { value: result } = await withRetry(config, controller.signal, () => downloadRunOutput(run, config, controller.signal));
+        await update({ status: 'completed', serverStatus, rowCount: result.rows.length, completedAt: Date.now() }, result);
+        break;
+      }
+
+      if (FAILED_STATUSES.includes(normalized)) {
+        const detail = getElementText(statusDoc, 'statusDetail') || getElementText(statusDoc, 'jobMessage');
+        await update({
+          status: normalized.startsWith('cancel') ? 'cancelled' : 'failed',
+          serverStatus,
+          error: detail || `Job ${run.jobId} ended with status ${serverStatus}.`,
+          completedAt: Date.now(),
+        });
+        break;
+      }
+
+      if (run.status !== 'running' || run.serverStatus !== serverStatus || run.error) {
+        await update({ status: 'running', serverStatus, error: undefined });
+      }
+
+      // 3. Still queued or running: try again later
+      await wait(POLL_INTERVAL_MS, controller.signal);
+    }
+  } catch (err: any) {
+    if (err instanceof NetworkError || err instanceof HttpError) {
+      // The job keeps running on the server: stay pending so polling resumes (reload or refresh)
+      await update({ error: `Status check failed, polling paused: ${err.message}` });
+    } else if (!(err instanceof QueryAbortedError && err.reason === 'cancelled')) {
+      await update({ status: 'failed', error: err.message || 'Unknown error occurred', completedAt: Date.now() });
+    }
+  } finally {
+    pollingRuns.delete(run.id);
+  }
+
+  return run;
+};
+
+/**
+ * Stops polling a run in this browser tab (the server-side job keeps running).
+ */
+export const stopPollingRun = (runId: string) => {
+  pollingRuns.get(runId)?.abort();
+};
+
+/**
+ * Asks BI Publisher to delete the scheduled job, then marks the run cancelled.
+ */
+export const cancelScheduledRun = async (run: ScheduledRun, config: ConnectionConfig): Promise<ScheduledRun> => {
+  stopPollingRun(run.id);
+  await callScheduleService(config, 'deleteScheduledReport', `<v2:scheduledJobID>${run.jobId}</v2:scheduledJobID>`);
+  const cancelled: ScheduledRun = { ...run, status: 'cancelled', completedAt: Date.now() };
+  await saveScheduledRun(cancelled);
+  return cancelled;
+};
+
+// Pending runs keep running on the server, so polling resumes after a reload
+export const isRunPending = (run: ScheduledRun) => run.status === 'submitted' || run.status === 'running';
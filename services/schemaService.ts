@@ -0,0 +1,101 @@
+import { ConnectionConfig, SchemaColumn, SchemaObject } from '../types';
+import { executeSoapQuery } from './soapService';
+import {
+  getSchemaColumns, getSchemaViewText, replaceSchemaObjects, saveSchemaColumns, saveSchemaViewText
+} from './dbService';
+
+// Rows requested per round trip while listing ALL_OBJECTS
+const OBJECT_PAGE_SIZE = 5000;
+
+// Oracle allows at most 1000 columns per table
+const MAX_COLUMNS = 1000;
+
+// ALL_VIEWS.TEXT_VC holds the first 4000 characters of the definition
+const VIEW_TEXT_LIMIT = 4000;
+
+const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+/**
+ * Fetches every table and view visible to the connection (optionally for one owner)
+ * page by page and replaces the connection's cached object list.
+ */
+export const refreshSchemaObjects = async (
+  config: ConnectionConfig,
+  owner: string,
+  onProgress?: (fetched: number) => void,
+  signal?: AbortSignal
+): Promise<number> => {
+  const ownerFilter = owner.trim() ? `AND owner = ${quote(owner.trim().toUpperCase())}` : '';
+  const sql = `SELECT owner, object_name, object_type FROM all_objects
+    WHERE object_type IN ('TABLE', 'VIEW') ${ownerFilter}
+    ORDER BY owner, object_name, object_type`;
+
+  const objects: SchemaObject[] = [];
+  let hasMore = true;
+  while (hasMore) {
+    const page = await executeSoapQuery(sql, config, OBJECT_PAGE_SIZE, { offset: objects.length, signal });
+    page.rows.forEach(row => objects.push({ owner: row.OWNER, name: row.OBJECT_NAME, type: row.OBJECT_TYPE }));
+    hasMore = !!page.paging?.hasMore && page.rows.length > 0;
+    onProgress?.(objects.length);
+  }
+
+  await replaceSchemaObjects(config.id, owner.trim().toUpperCase(), objects);
+  return objects.length;
+};
+
+const formatDataType = (row: Record<string, string>): string => {
+  const type = row.DATA_TYPE || '';
+  if (type === 'NUMBER' && row.DATA_PRECISION) {
+    return row.DATA_SCALE && row.DATA_SCALE !== '0' ? `NUMBER(${row.DATA_PRECISION},${row.DATA_SCALE})` : `NUMBER(${row.DATA_PRECISION})`;
+  }
+  if (/CHAR/.test(type) && row.CHAR_LENGTH && row.CHAR_LENGTH !== '0') {
+    return `${type}(${row.CHAR_LENGTH})`;
+  }
+  return type;
+};
+
+/**
+ * Returns the columns of a table or view, from the cache when available.
+ */
+export const loadTableColumns = async (config: ConnectionConfig, obj: SchemaObject, forceRefresh = false): Promise<SchemaColumn[]> => {
+  if (!forceRefresh) {
+    const cached = await getSchemaColumns(config.id, obj);
+    if (cached) return cached;
+  }
+
+  const sql = `SELECT column_name, data_type, data_precision, data_scale, char_length, nullable, column_id
+    FROM all_tab_columns
+    WHERE owner = ${quote(obj.owner)} AND table_name = ${quote(obj.name)}
+    ORDER BY column_id`;
+  const result = await executeSoapQuery(sql, config, MAX_COLUMNS);
+
+  const columns: SchemaColumn[] = result.rows.map(row => ({
+    name: row.COLUMN_NAME,
+    dataType: formatDataType(row),
+    nullable: row.NULLABLE !== 'N',
+    position: parseInt(row.COLUMN_ID, 10) || 0,
+  }));
+  await saveSchemaColumns(config.id, obj, columns);
+  return columns;
+};
+
+/**
+ * Returns the SQL definition of a view, from the cache when available.
+ */
+export const loadViewDefinition = async (config: ConnectionConfig, obj: SchemaObject): Promise<string> => {
+  const cached = await getSchemaViewText(config.id, obj);
+  if (cached !== null) return cached;
+
+  const sql = `SELECT text_vc, text_length FROM all_views
+    WHERE owner = ${quote(obj.owner)} AND view_name = ${quote(obj.name)}`;
+  const result = await executeSoapQuery(sql, config, 1);
+  const row = result.rows[0];
+  if (!row) return '';
+
+  let text = row.TEXT_VC || '';
+  if (parseInt(row.TEXT_LENGTH, 10) > VIEW_TEXT_LIMIT) {
+    text += `\n-- (definition truncated at ${VIEW_TEXT_LIMIT} characters)`;
+  }
+  await saveSchemaViewText(config.id, obj, text);
+  return text;
+};
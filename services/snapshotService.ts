@@ -0,0 +1,75 @@
+import { ChangedRow, ConnectionConfig, QueryResult, ResultSnapshot, SnapshotDiff, SqlTab } from '../types';
+
+// Separator of key values; cannot appear in XML text content
+const KEY_SEPARATOR = '\u0000';
+
+/**
+ * Snapshot metadata for the result currently shown in a tab.
+ */
+export const createSnapshot = (name: string, tab: SqlTab, config: ConnectionConfig, result: QueryResult): ResultSnapshot => ({
+  id: Math.random().toString(36).substring(2) + Date.now().toString(36),
+  name,
+  connectionId: config.id,
+  query: tab.executedQuery || tab.query,
+  savedQueryId: tab.savedQueryId,
+  bindValues: tab.bindValues,
+  createdAt: Date.now(),
+  rowCount: result.rows.length,
+  isTruncated: !!result.paging?.hasMore,
+});
+
+// Groups rows by the given key, keeping their order so duplicate keys are matched first to first
+const groupRows = (rows: Record<string, string>[], keyOf: (row: Record<string, string>) => string) => {
+  const groups = new Map<string, Record<string, string>[]>();
+  rows.forEach(row => {
+    const key = keyOf(row);
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  });
+  return groups;
+};
+
+/**
+ * Compares a fresh result with a snapshot. With key columns, rows are matched on them and value
+ * differences are reported as changed; without, rows are matched on all shared columns
+ * (a changed row then shows up as one removed and one added row).
+ */
+export const compareResults = (snapshot: QueryResult, fresh: QueryResult, keyColumns: string[] = []): SnapshotDiff => {
+  // 1. Only columns present on both sides take part in the comparison
+  const shared = fresh.columns.filter(c => snapshot.columns.includes(c));
+  const keys = keyColumns.filter(c => shared.includes(c));
+  const matchColumns = keys.length > 0 ? keys : shared;
+  const keyOf = (row: Record<string, string>) => matchColumns.map(c => row[c] ?? '').join(KEY_SEPARATOR);
+
+  // 2. Pair rows by key
+  const before = groupRows(snapshot.rows, keyOf);
+  const added: Record<string, string>[] = [];
+  const changed: ChangedRow[] = [];
+  let unchangedCount = 0;
+
+  fresh.rows.forEach(row => {
+    const key = keyOf(row);
+    const previous = before.get(key)?.shift();
+    if (!previous) {
+      added.push(row);
+      return;
+    }
+    const columns = shared.filter(c => (previous[c] ?? '') !== (row[c] ?? ''));
+    if (columns.length === 0) unchangedCount++;
+    else changed.push({ key: matchColumns.map(c => row[c] ?? '').join(' | '), before: previous, after: row, columns });
+  });
+
+  // 3. Whatever was not paired disappeared since the snapshot
+  const removed = Array.from(before.values()).flat();
+
+  return {
+    keyColumns: keys,
+    added,
+    removed,
+    changed,
+    unchangedCount,
+    columnsAdded: fresh.columns.filter(c => !snapshot.columns.includes(c)),
+    columnsRemoved: snapshot.columns.filter(c => !fresh.columns.includes(c)),
+  };
+};
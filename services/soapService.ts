@@ -1,19 +1,83 @@
-import { ConnectionConfig, QueryResult } from '../types';
-import { REPORT_SERVICE_PATH } from '../constants';
+import { BindValue, ConnectionConfig, QueryResult, SqlEncoding } from '../types';
+import { REPORT_SERVICE_PATH, COMPRESSION_PARAM, DEFAULT_REPORT_PATH, DEFAULT_SOAP_TEMPLATE, DEFAULT_ATTRIBUTE_FORMAT } from '../constants';
+import { mapSubstitutedOffset, substituteBindVariables } from './sqlParser';
+import { inferColumnTypes } from './formatService';
+import { withRetry } from './retryService';
+import { applyCorsProxy, getAuthHeaders, invalidateToken, usesBodyCredentials } from './authService';
+import { AuthRequiredError, EmptyOutputError, HttpError, NetworkError, OracleQueryError, QueryAbortedError, SoapFaultError } from './errors';
 
 const CHUNK_SIZE = 32767;
+export const MAX_CHUNKS = 9; // The Data Model only declares parameters q1 through q9
+
+// Largest Base64 payload the q1..q9 parameters can carry
+export const MAX_ENCODED_SQL_LENGTH = CHUNK_SIZE * MAX_CHUNKS;
+
+// Room for the SELECT * FROM (...) paging wrapper added around the user SQL
+const WRAPPER_OVERHEAD = 96;
 
 /**
- * Robust Base64 encoder that handles UTF-8 strings.
+ * Base64 encoder for raw bytes.
  */
-const encodeBase64 = (str: string): string => {
-  const bytes = new TextEncoder().encode(str);
+export const bytesToBase64 = (bytes: Uint8Array): string => {
   const binString = Array.from(bytes, (byte) =>
     String.fromCodePoint(byte)
   ).join("");
   return btoa(binString);
 };
 
+/**
+ * Robust Base64 encoder that handles UTF-8 strings.
+ */
+const encodeBase64 = (str: string): string => {
+  return bytesToBase64(new TextEncoder().encode(str));
+};
+
+/**
+ * Gzips the UTF-8 bytes of a string using the browser's native CompressionStream.
+ */
+const gzipString = async (str: string): Promise<Uint8Array> => {
+  const stream = new Blob([str]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Encodes the wrapped SQL for the q1..q9 parameters, optionally gzipped first.
+ */
+const encodeSqlPayload = async (sql: string, encoding: SqlEncoding): Promise<string> => {
+  if (encoding === 'gzip-base64') {
+    return bytesToBase64(await gzipString(sql));
+  }
+  return encodeBase64(sql);
+};
+
+/**
+ * Estimates the uncompressed Base64 length of a query once wrapped, without encoding it.
+ * Used by the editor to warn before the user hits Run.
+ */
+export const estimateEncodedSqlLength = (sql: string): number => {
+  const byteLength = new TextEncoder().encode(sql).length + WRAPPER_OVERHEAD;
+  return Math.ceil(byteLength / 3) * 4;
+};
+
+/**
+ * Raised before sending when the encoded SQL does not fit in the q1..q9 parameters.
+ */
+export class SqlTooLargeError extends Error {
+  encodedLength: number;
+
+  constructor(encodedLength: number, encoding: SqlEncoding) {
+    const kb = (n: number) => `${Math.round(n / 1024)} KB`;
+    super(
+      `SQL is too large to send: the encoded query is ${kb(encodedLength)} but the report parameters (q1-q${MAX_CHUNKS}) hold at most ${kb(MAX_ENCODED_SQL_LENGTH)}.\n\n` +
+      (encoding === 'gzip-base64'
+        ? `Even compressed, the query does not fit. Split it into smaller statements or move long IN-lists into a batch run.`
+        : `Enable "Gzip + Base64" SQL encoding in Settings (requires the compressed data model), or shorten the query.`)
+    );
+    this.name = 'SqlTooLargeError';
+    this.encodedLength = encodedLength;
+  }
+}
+
 /**
  * Decodes Base64 string back to UTF-8.
  */
@@ -28,33 +92,58 @@ const decodeBase64 = (str: string): string => {
   }
 };
 
+export interface QueryExecutionOptions {
+  offset?: number; // Number of rows to skip (server-side paging)
+  signal?: AbortSignal; // Cancels the in-flight request when aborted
+  bindValues?: Record<string, BindValue>; // Values for :NAME placeholders in the SQL
+}
+
 /**
- * Splits the SQL into Base64 chunks mapped to q1...q9.
- * Matches Python 'FusionSQLTool' logic.
+ * Catalog path of the report whose data model runs the q1..q9 SQL for this connection.
+ */
+export const getReportPath = (config: ConnectionConfig): string => config.reportPath?.trim() || DEFAULT_REPORT_PATH;
+
+// Every paging wrapper starts with this prefix, so error offsets shift by its length
+const WRAPPER_PREFIX = 'SELECT * FROM (';
+
+/**
+ * Sanitizes the user SQL: trims it and removes the trailing semicolon which causes ORA-00907.
+ */
+const cleanSqlForWrapper = (sql: string): string => {
+  const cleanSql = sql.trim();
+  return cleanSql.endsWith(';') ? cleanSql.slice(0, -1) : cleanSql;
+};
+
+/**
+ * Wraps the user SQL so Oracle only returns the requested page.
+ * One extra row is fetched so the caller can tell whether another page exists.
  */
-const prepareSqlParameters = (sql: string, rowLimit: number): string => {
-  // 0. Sanitize SQL: Remove trailing semicolon which causes ORA-00907
-  let cleanSql = sql.trim();
-  if (cleanSql.endsWith(';')) {
-    cleanSql = cleanSql.slice(0, -1);
+const wrapSqlForPage = (sql: string, offset: number, pageSize: number): string => {
+  if (offset <= 0) {
+    return `${WRAPPER_PREFIX}${sql}) WHERE rownum <= ${pageSize + 1}`;
   }
+  return `${WRAPPER_PREFIX}${sql}) OFFSET ${offset} ROWS FETCH NEXT ${pageSize + 1} ROWS ONLY`;
+};
 
-  // 1. Wrap SQL with dynamic row limit
-  const wrappedSql = `SELECT * FROM (${cleanSql}) WHERE rownum <= ${rowLimit}`;
-  
-  // 2. Encode to Base64 (UTF-8 safe)
-  const base64Sql = encodeBase64(wrappedSql);
+/**
+ * Splits the wrapped SQL into Base64 chunks mapped to q1...q9.
+ * Matches Python 'FusionSQLTool' logic.
+ */
+const prepareSqlParameters = async (wrappedSql: string, encoding: SqlEncoding): Promise<string> => {
+  // 1. Encode to Base64 (UTF-8 safe, optionally gzipped)
+  const base64Sql = await encodeSqlPayload(wrappedSql, encoding);
+
+  // 2. Pre-flight size check: never send a truncated query
+  const totalLen = base64Sql.length;
+  if (totalLen > MAX_ENCODED_SQL_LENGTH) {
+    throw new SqlTooLargeError(totalLen, encoding);
+  }
   
   // 3. Split into chunks and generate XML items
   let paramXml = "";
-  const totalLen = base64Sql.length;
   
   for (let i = 0; i < totalLen; i += CHUNK_SIZE) {
     const chunkIndex = Math.floor(i / CHUNK_SIZE);
-    
-    // Safety check: The Data Model only supports q1 through q9
-    if (chunkIndex >= 9) break;
-
     const chunk = base64Sql.substring(i, i + CHUNK_SIZE);
     const paramName = `q${chunkIndex + 1}`; // q1, q2, ...
 
@@ -67,9 +156,81 @@ const prepareSqlParameters = (sql: string, rowLimit: number): string => {
         </v2:item>`;
   }
 
+  // 4. Tell the compressed data model to gunzip before executing
+  if (encoding === 'gzip-base64') {
+    paramXml += `
+        <v2:item>
+            <v2:name>${COMPRESSION_PARAM}</v2:name>
+            <v2:values>
+                <v2:item>gzip</v2:item>
+            </v2:values>
+        </v2:item>`;
+  }
+
   return paramXml;
 };
 
+interface ParsedOracleError {
+  code: string;
+  message: string;
+  offset?: number; // 0-based offset in the SQL Oracle executed
+  line?: number; // 1-based line/column in the SQL Oracle executed
+  column?: number;
+}
+
+// PL/SQL wrapper codes that only point at the real error reported after them
+const WRAPPER_ORA_CODES = new Set(['ORA-06550', 'ORA-06512']);
+
+/**
+ * Extracts the ORA code, message and error position from a fault text.
+ * Returns null when the text does not contain an ORA-xxxxx code.
+ */
+const parseOracleError = (text: string): ParsedOracleError | null => {
+  const codes = Array.from(text.matchAll(/\b(ORA-\d{5}):\s*([^\n\r<]*)/g));
+  if (codes.length === 0) return null;
+
+  const primary = codes.find(m => !WRAPPER_ORA_CODES.has(m[1])) || codes[0];
+  const parsed: ParsedOracleError = { code: primary[1], message: primary[2].trim() };
+
+  // JDBC reports a character offset, SQL*Plus style and PL/SQL errors report line/column
+  const position = text.match(/Error Position:\s*(\d+)/i);
+  const lineColumn = text.match(/Error at Line:\s*(\d+)\s*Column:\s*(\d+)/i) || text.match(/\bline (\d+),? column (\d+)/i);
+  if (position) {
+    parsed.offset = parseInt(position[1], 10);
+  } else if (lineColumn) {
+    parsed.line = parseInt(lineColumn[1], 10);
+    parsed.column = parseInt(lineColumn[2], 10);
+  }
+  return parsed;
+};
+
+/**
+ * Maps an error position in the wrapped SQL back to an offset in the caller's query,
+ * undoing the paging wrapper, whitespace trimming and bind substitution.
+ */
+const mapErrorPosition = (
+  parsed: ParsedOracleError,
+  query: string,
+  sql: string,
+  wrappedSql: string,
+  bindValues?: Record<string, BindValue>
+): number | undefined => {
+  let sentOffset = parsed.offset;
+  if (sentOffset === undefined && parsed.line !== undefined && parsed.column !== undefined) {
+    const lines = wrappedSql.split('\n');
+    if (parsed.line > lines.length) return undefined;
+    sentOffset = lines.slice(0, parsed.line - 1).reduce((sum, line) => sum + line.length + 1, 0) + parsed.column - 1;
+  }
+  if (sentOffset === undefined || sentOffset < WRAPPER_PREFIX.length) return undefined;
+
+  // Errors in the wrapper suffix (e.g. ORA-00907 from an unbalanced query) point at the end of the user SQL
+  const cleanLength = cleanSqlForWrapper(sql).length;
+  const leading = sql.length - sql.trimStart().length;
+  const sqlOffset = leading + Math.min(sentOffset - WRAPPER_PREFIX.length, cleanLength);
+
+  return bindValues ? mapSubstitutedOffset(query, bindValues, sqlOffset) : sqlOffset;
+};
+
 /**
  * Parses the Oracle BI Publisher XML output.
  */
@@ -83,7 +244,12 @@ const parseOracleXML = (xmlString: string): QueryResult => {
   }
 
   const root = xmlDoc.documentElement;
-  let rows: HTMLCollectionOf<Element> | NodeListOf<Element> = root.children;
+  // The installed runner data model (see installerService) nests DBMS_XMLGEN rows as DATA_DS/<group>/RESULT/ROWSET.
+  // Only that path is followed: a user column named ROWSET must not be taken for it.
+  const childElement = (parent: Element | null | undefined, name: string) =>
+    parent ? Array.from(parent.children).find(c => c.nodeName === name) : undefined;
+  const rowset = childElement(root, "ROWSET") || childElement(childElement(root.firstElementChild, "RESULT"), "ROWSET");
+  let rows: HTMLCollectionOf<Element> | NodeListOf<Element> = (rowset || root).children;
 
   if (rows.length === 0) {
      return { columns: [], rows: [], rawXml: xmlString, executionTimeMs: 0 };
@@ -109,149 +275,395 @@ const parseOracleXML = (xmlString: string): QueryResult => {
     resultRows.push(rowData);
   }
 
+  const columns = Array.from(columnsSet);
   return {
-    columns: Array.from(columnsSet),
+    columns,
+    columnMeta: inferColumnTypes(columns, resultRows),
     rows: resultRows,
     rawXml: xmlString,
     executionTimeMs: 0
   };
 };
 
+// Elements with child elements are data groups (rows); the others hold values
+const isGroupElement = (el: Element) => el.children.length > 0;
+
 /**
- * Executes the SOAP request.
+ * One row per innermost group occurrence, carrying the values of its parent groups.
+ * Only the first nested group of each level is expanded.
  */
-export const executeSoapQuery = async (
+const flattenGroup = (group: Element, inherited: Record<string, string>): Record<string, string>[] => {
+  const row = { ...inherited };
+  let nestedName: string | undefined;
+  Array.from(group.children).forEach(child => {
+    if (!isGroupElement(child)) row[child.nodeName] = child.textContent || "";
+    else if (!nestedName) nestedName = child.nodeName;
+  });
+  if (!nestedName) return [row];
+  return Array.from(group.children)
+    .filter(child => child.nodeName === nestedName)
+    .flatMap(child => flattenGroup(child, row));
+};
+
+/**
+ * Parses the data XML of a BI Publisher report (e.g. DATA_DS with P_FROM, P_TO, G_1...).
+ * Top-level values are parameter echoes and are skipped; rows come from the first group,
+ * with nested groups flattened into one row per innermost occurrence.
+ */
+const parseReportDataXML = (xmlString: string): QueryResult => {
+  const xmlDoc = new DOMParser().parseFromString(xmlString, "text/xml");
+  if (xmlDoc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Error parsing response XML from Oracle.");
+  }
+
+  const root = xmlDoc.documentElement;
+  const firstGroup = Array.from(root.children).find(isGroupElement);
+  const rows = firstGroup
+    ? Array.from(root.children).filter(el => el.nodeName === firstGroup.nodeName).flatMap(el => flattenGroup(el, {}))
+    : [];
+
+  const columnsSet = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(col => columnsSet.add(col)));
+  const columns = Array.from(columnsSet);
+  return {
+    columns,
+    columnMeta: inferColumnTypes(columns, rows),
+    rows,
+    rawXml: xmlString,
+    executionTimeMs: 0
+  };
+};
+
+export interface PreparedQuery {
+  parametersXml: string; // q1..q9 (and compression) <v2:item> elements
+  toFaultError: (message: string, faultText: string) => Error; // Structured ORA errors mapped to the query
+}
+
+/**
+ * Substitutes binds, wraps the SQL for the page window and encodes it into report parameters.
+ * Shared by the synchronous runReport call and scheduled (asynchronous) runs.
+ */
+export const prepareQuery = async (
   query: string,
   config: ConnectionConfig,
-  rowLimit: number
-): Promise<QueryResult> => {
-  const startTime = performance.now();
+  rowLimit: number,
+  options: QueryExecutionOptions = {}
+): Promise<PreparedQuery> => {
+  const offset = Math.max(0, options.offset || 0);
+  const sql = options.bindValues ? substituteBindVariables(query, options.bindValues) : query;
+  const wrappedSql = wrapSqlForPage(cleanSqlForWrapper(sql), offset, rowLimit);
+  const parametersXml = await prepareSqlParameters(wrappedSql, config.sqlEncoding || 'base64');
 
-  // 1. Generate Parameters (Chunking + Encoding)
-  const parametersXml = prepareSqlParameters(query, rowLimit);
+  // Builds the error for a fault, structured when it carries an ORA code
+  const toFaultError = (message: string, faultText: string): Error => {
+    const parsed = parseOracleError(faultText);
+    if (!parsed) return new SoapFaultError(message, faultText);
+    const position = mapErrorPosition(parsed, query, sql, wrappedSql, options.bindValues);
+    return new OracleQueryError(message, parsed.code, parsed.message, position);
+  };
 
-  // 2. Construct Payload
-  let soapBody = "";
-  
-  if (config.soapTemplate && config.soapTemplate.includes('{{PARAMETERS}}')) {
-      soapBody = config.soapTemplate
-        .replace('{{USERNAME}}', config.username)
-        .replace('{{PASSWORD}}', config.password)
-        .replace('{{PARAMETERS}}', parametersXml);
-  } else {
-      soapBody = `<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:v2="http://xmlns.oracle.com/oxp/service/v2">
-        <soapenv:Header/>
-        <soapenv:Body>
-            <v2:runReport>
-                <v2:reportRequest>
-                    <v2:attributeFormat>xml</v2:attributeFormat>
-                    <v2:byPassCache>True</v2:byPassCache>
-                    <v2:flattenXML>True</v2:flattenXML>
-                    <v2:reportAbsolutePath>/Custom/Human Capital Management/FusionSQLtoolTest1/FSTreport_2.xdo</v2:reportAbsolutePath>
-                    <v2:parameterNameValues>
-                       <v2:listOfParamNameValues>
-                          ${parametersXml}
-                       </v2:listOfParamNameValues>
-                    </v2:parameterNameValues>
-                </v2:reportRequest>
-                <v2:userID>${config.username}</v2:userID>
-                <v2:password>${config.password}</v2:password>
-            </v2:runReport>
-        </soapenv:Body>
-      </soapenv:Envelope>`;
-  }
+  return { parametersXml, toFaultError };
+};
 
-  // 3. Construct Target URL (Auto-append service path if missing)
+/**
+ * Builds the endpoint URL of a BIP or analytics web service for the connection, routed through the CORS proxy.
+ * A base URL gets the service path appended; a full service URL is re-pointed at other services.
+ */
+const buildServiceUrl = (config: ConnectionConfig, servicePath: string): string => {
   let targetUrl = config.url.trim();
-  // If the user only provided the base (e.g., https://host.com), append the report service path
-  if (!targetUrl.includes("/xmlpserver")) {
+  const servicesIndex = targetUrl.search(/\/(xmlpserver|analytics)/);
+  // If the user only provided the base (e.g., https://host.com), append the service path
+  if (servicesIndex === -1) {
       // Remove trailing slash if present
       if (targetUrl.endsWith('/')) {
         targetUrl = targetUrl.slice(0, -1);
       }
-      targetUrl = `${targetUrl}${REPORT_SERVICE_PATH}`;
+      targetUrl = `${targetUrl}${servicePath}`;
+  } else if (servicePath !== REPORT_SERVICE_PATH) {
+      targetUrl = `${targetUrl.substring(0, servicesIndex)}${servicePath}`;
   }
 
-  // 4. Handle Proxy URL construction
-  let fetchUrl = targetUrl;
-  
-  if (config.corsProxy && config.corsProxy.trim().length > 0) {
-      let proxy = config.corsProxy.trim();
-      
-      // Intelligent handling for corsproxy.io which requires '?' separator
-      if (proxy === 'https://corsproxy.io') {
-          proxy = 'https://corsproxy.io/?';
-      }
+  return applyCorsProxy(config, targetUrl);
+};
 
-      // Ensure proper separator for standard proxies if not using query param style
-      // If it doesn't end with ? or /, add / (unless it's the specific corsproxy.io case handled above)
-      if (!proxy.endsWith('?') && !proxy.endsWith('=') && !proxy.endsWith('/')) {
-         proxy = `${proxy}/`;
-      }
-      
-      fetchUrl = `${proxy}${targetUrl}`;
+/**
+ * Posts a SOAP envelope to a BIP web service and returns the parsed response document.
+ * Handles cancellation, the connection timeout, network/CORS failures and SOAP faults.
+ */
+export const sendSoapRequest = async (
+  config: ConnectionConfig,
+  servicePath: string,
+  soapBody: string,
+  signal?: AbortSignal,
+  toFaultError: (message: string, faultText: string) => Error = (message, faultText) => new SoapFaultError(message, faultText)
+): Promise<Document> => {
+  const fetchUrl = buildServiceUrl(config, servicePath);
+
+  // 1. Wire up cancellation (user Stop button + per-connection timeout)
+  const controller = new AbortController();
+  let timedOut = false;
+  const onExternalAbort = () => controller.abort();
+  if (signal) {
+    if (signal.aborted) controller.abort();
+    else signal.addEventListener('abort', onExternalAbort);
   }
+  const timeoutSeconds = config.timeoutSeconds || 0;
+  const timer = timeoutSeconds > 0
+    ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutSeconds * 1000)
+    : undefined;
 
-  // 5. Send Request
-  let response;
-  try {
-    response = await fetch(fetchUrl, {
-        method: 'POST',
-        headers: {
+  // Translates an AbortError into a user-facing cancelled/timed out error
+  const toAbortError = (error: any) => {
+    if (error?.name !== 'AbortError') return error;
+    return timedOut
+      ? new QueryAbortedError('timeout', `Query timed out after ${timeoutSeconds}s. Increase the timeout in Settings or narrow the query.`)
+      : new QueryAbortedError('cancelled', 'Query cancelled by user.');
+  };
+
+  const post = async () => {
+    const headers = {
         'Content-Type': 'text/xml;charset=UTF-8',
         'SOAPAction': '""',
-        },
-        body: soapBody
-    });
-  } catch (error: any) {
-    if (error.name === 'TypeError' && error.message === 'Failed to fetch') {
-        throw new Error(
-            `Network Error: Failed to fetch.\n\n` +
-            `Cause: This is likely a Cross-Origin (CORS) restriction by the browser.\n` + 
-            `Solution: Go to Settings and configure a CORS Proxy (e.g. https://corsproxy.io).`
-        );
+        ...await getAuthHeaders(config, controller.signal),
+    };
+    const sentAt = Date.now();
+    try {
+      return await fetch(fetchUrl, {
+          method: 'POST',
+          headers,
+          body: soapBody,
+          signal: controller.signal
+      });
+    } catch (error: any) {
+      if (error.name === 'TypeError' && error.message === 'Failed to fetch') {
+          throw new NetworkError(
+              `Network Error: Failed to fetch.\n\n` +
+              `Cause: This is likely a Cross-Origin (CORS) restriction by the browser.\n` + 
+              `Solution: Go to Settings and configure a CORS Proxy (e.g. https://corsproxy.io).`,
+              Date.now() - sentAt
+          );
+      }
+      throw error;
     }
-    throw error;
-  }
+  };
 
-  if (!response.ok) {
-    const text = await response.text();
-    // Try to extract faultstring if XML
-    const faultMatch = text.match(/<faultstring>(.*?)<\/faultstring>/s);
-    if (faultMatch && faultMatch[1]) {
-        throw new Error(`Server returned ${response.status}: ${faultMatch[1]}`);
+  // 2. Send Request (a rejected OAuth token is refreshed once, other credentials are re-prompted)
+  let responseText: string;
+  try {
+    let response = await post();
+    if (response.status === 401 && invalidateToken(config)) {
+      response = await post();
+    }
+    if (response.status === 401) {
+      throw new AuthRequiredError(config, config.authMode === 'bearer'
+        ? 'The server rejected the bearer token (401 Unauthorized).'
+        : 'The server rejected the username or password (401 Unauthorized).');
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      // Try to extract faultstring if XML, otherwise it is a plain HTTP failure (gateway, wrong URL, ...)
+      const faultMatch = text.match(/<faultstring>(.*?)<\/faultstring>/s);
+      if (faultMatch && faultMatch[1]) {
+          throw toFaultError(`Server returned ${response.status}: ${faultMatch[1]}`, faultMatch[1]);
+      }
+      throw new HttpError(response.status, `Server returned ${response.status}: ${text}`);
     }
-    throw new Error(`Server returned ${response.status}: ${text}`);
-  }
 
-  const responseText = await response.text();
+    responseText = await response.text();
+  } catch (error: any) {
+    throw toAbortError(error);
+  } finally {
+    if (timer) clearTimeout(timer);
+    signal?.removeEventListener('abort', onExternalAbort);
+  }
 
-  // 6. Extract Base64 from SOAP Response
+  // 3. Check for Faults
   const parser = new DOMParser();
   const doc = parser.parseFromString(responseText, "text/xml");
   
-  // Check for Faults first
   const fault = doc.getElementsByTagName("faultstring")[0] || 
                 doc.getElementsByTagName("soapenv:Fault")[0];
   if (fault) {
-      throw new Error(`Oracle SOAP Fault: ${fault.textContent}`);
+      throw toFaultError(`Oracle SOAP Fault: ${fault.textContent}`, fault.textContent || '');
   }
 
-  // Look for reportBytes
-  const reportBytesNode = doc.getElementsByTagName("reportBytes")[0] || 
-                          doc.getElementsByTagName("v2:reportBytes")[0] ||
-                          doc.getElementsByTagName("ns2:reportBytes")[0];
+  return doc;
+};
+
+/**
+ * Wraps a v2 web service operation (ScheduleService, CatalogService, ...) in a SOAP envelope,
+ * with the connection credentials unless they travel in the Authorization header.
+ */
+export const buildServiceEnvelope = (operation: string, body: string, config: ConnectionConfig) => `<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:v2="http://xmlns.oracle.com/oxp/service/v2">
+        <soapenv:Header/>
+        <soapenv:Body>
+            <v2:${operation}>
+                ${body}${usesBodyCredentials(config) ? `
+                <v2:userID>${escapeXml(config.username)}</v2:userID>
+                <v2:password>${escapeXml(config.password)}</v2:password>` : ''}
+            </v2:${operation}>
+        </soapenv:Body>
+      </soapenv:Envelope>`;
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 
-  if (!reportBytesNode || !reportBytesNode.textContent) {
-    throw new Error("No 'reportBytes' found in response. The report might have failed to generate output or the user permissions are insufficient.");
+/**
+ * Returns the text of the first element with the given local name (any namespace prefix).
+ */
+export const getElementText = (doc: Document | Element, localName: string): string | null => {
+  const node = doc.getElementsByTagNameNS('*', localName)[0] || doc.getElementsByTagName(localName)[0];
+  return node ? node.textContent : null;
+};
+
+/**
+ * Decodes Base64 report output and parses it into a page of results.
+ * The extra look-ahead row (see wrapSqlForPage) is trimmed and recorded as paging state.
+ * `layout` is 'groups' for the data of arbitrary catalog reports (see parseReportDataXML).
+ */
+export const parseReportOutput = (base64Data: string, rowLimit: number, offset = 0, layout: 'rows' | 'groups' = 'rows'): QueryResult => {
+  const xml = decodeBase64(base64Data);
+  const result = layout === 'groups' ? parseReportDataXML(xml) : parseOracleXML(xml);
+
+  const hasMore = result.rows.length > rowLimit;
+  if (hasMore) {
+    result.rows = result.rows.slice(0, rowLimit);
+  }
+  result.paging = { offset, pageSize: rowLimit, hasMore };
+  return result;
+};
+
+// --- runReport Envelope Template ---
+
+export const TEMPLATE_PLACEHOLDERS = ['USERNAME', 'PASSWORD', 'PARAMETERS', 'REPORT_PATH', 'ATTRIBUTE_FORMAT', 'LOCALE', 'TIMEZONE'];
+const REQUIRED_PLACEHOLDERS = ['USERNAME', 'PASSWORD', 'PARAMETERS'];
+
+const templateValues = (config: ConnectionConfig, parametersXml: string): Record<string, string> => ({
+  // Header authentication: the userID/password elements are dropped from the envelope
+  USERNAME: usesBodyCredentials(config) ? escapeXml(config.username) : '',
+  PASSWORD: usesBodyCredentials(config) ? escapeXml(config.password) : '',
+  PARAMETERS: parametersXml,
+  REPORT_PATH: escapeXml(getReportPath(config)),
+  ATTRIBUTE_FORMAT: escapeXml(config.attributeFormat?.trim() || DEFAULT_ATTRIBUTE_FORMAT),
+  LOCALE: escapeXml(config.locale?.trim() || ''),
+  TIMEZONE: escapeXml(config.timezone?.trim() || ''),
+});
+
+/**
+ * Replaces every {{NAME}} occurrence in one pass (inserted values are never re-scanned).
+ * Elements whose only content is a placeholder with an empty value are dropped.
+ */
+const renderTemplate = (template: string, values: Record<string, string>): string =>
+  template
+    .replace(/<([\w:.-]+)>\s*\{\{(\w+)\}\}\s*<\/\1>/g, (match, _tag, name) => values[name] === '' ? '' : match)
+    .replace(/\{\{(\w+)\}\}/g, (match, name) => name in values ? values[name] : match);
+
+/**
+ * Builds the runReport envelope from the connection's template, or the built-in one when the
+ * template has no {{PARAMETERS}} placeholder.
+ */
+export const buildRunReportEnvelope = (config: ConnectionConfig, parametersXml: string): string => {
+  const isCustom = !!config.soapTemplate && config.soapTemplate.includes('{{PARAMETERS}}');
+  let template = isCustom ? config.soapTemplate : DEFAULT_SOAP_TEMPLATE;
+
+  // Older templates hard-code the report path: a configured report path still wins
+  if (isCustom && !template.includes('{{REPORT_PATH}}') && config.reportPath?.trim()) {
+    template = template.replace(/(<v2:reportAbsolutePath>)[^<]*(<\/v2:reportAbsolutePath>)/, '$1{{REPORT_PATH}}$2');
+  }
+  return renderTemplate(template, templateValues(config, parametersXml));
+};
+
+/**
+ * Report request attributes (format, locale, timezone) for requests built outside the template.
+ */
+export const buildReportAttributes = (config: ConnectionConfig): string => renderTemplate(`<v2:attributeFormat>{{ATTRIBUTE_FORMAT}}</v2:attributeFormat>
+                        <v2:attributeLocale>{{LOCALE}}</v2:attributeLocale>
+                        <v2:attributeTimezone>{{TIMEZONE}}</v2:attributeTimezone>`, templateValues(config, ''));
+
+export interface TemplateValidation {
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Checks a SOAP template for missing/unknown placeholders and XML well-formedness.
+ */
+export const validateSoapTemplate = (template: string): TemplateValidation => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (!template.trim()) {
+    warnings.push('Empty template: the built-in envelope is used.');
+    return { errors, warnings };
+  }
+
+  // 1. Placeholders
+  const found = Array.from(new Set(Array.from(template.matchAll(/\{\{(\w*)\}\}/g), m => m[1])));
+  const unknown = found.filter(name => !TEMPLATE_PLACEHOLDERS.includes(name));
+  if (unknown.length > 0) {
+    errors.push(`Unknown placeholder${unknown.length > 1 ? 's' : ''}: ${unknown.map(n => `{{${n}}}`).join(', ')}`);
+  }
+  REQUIRED_PLACEHOLDERS.filter(name => !found.includes(name)).forEach(name => {
+    errors.push(name === 'PARAMETERS'
+      ? 'Missing {{PARAMETERS}}: the template is ignored and the built-in envelope is used.'
+      : `Missing {{${name}}}.`);
+  });
+  if (!found.includes('REPORT_PATH') && /<v2:reportAbsolutePath>/.test(template)) {
+    warnings.push('The report path is hard-coded. Use {{REPORT_PATH}} so the connection\'s report path applies.');
+  }
+
+  // 2. Well-formed XML once filled with sample values
+  const sample = Object.fromEntries(TEMPLATE_PLACEHOLDERS.map(name => [name, 'x']));
+  sample.PARAMETERS = '<v2:item><v2:name>q1</v2:name><v2:values><v2:item>x</v2:item></v2:values></v2:item>';
+  const doc = new DOMParser().parseFromString(renderTemplate(template, sample), 'text/xml');
+  const parseError = doc.getElementsByTagName('parsererror')[0];
+  if (parseError) {
+    errors.push(`XML is not well-formed: ${(parseError.textContent || '').trim().split('\n')[0]}`);
   }
 
-  const base64Data = reportBytesNode.textContent;
-  const decodedXml = decodeBase64(base64Data);
+  return { errors, warnings };
+};
+
+/**
+ * The envelope a sample query would send, with the password redacted.
+ */
+export const previewRunReportEnvelope = async (config: ConnectionConfig): Promise<string> => {
+  const { parametersXml } = await prepareQuery('SELECT * FROM DUAL', config, 1);
+  return buildRunReportEnvelope({ ...config, password: '********' }, parametersXml);
+};
+
+/**
+ * Executes the SOAP request.
+ */
+export const executeSoapQuery = async (
+  query: string,
+  config: ConnectionConfig,
+  rowLimit: number,
+  options: QueryExecutionOptions = {}
+): Promise<QueryResult> => {
+  const startTime = performance.now();
+  const offset = Math.max(0, options.offset || 0);
+
+  // 1. Generate Parameters (Bind substitution + Wrapping + Chunking + Encoding)
+  const { parametersXml, toFaultError } = await prepareQuery(query, config, rowLimit, options);
+
+  // 2. Construct Payload (connection template or built-in envelope)
+  const soapBody = buildRunReportEnvelope(config, parametersXml);
+
+  // 3. Send Request (URL, proxy, cancellation, timeout and faults), retrying transient failures
+  const { value: doc, attempts } = await withRetry(config, options.signal,
+    () => sendSoapRequest(config, REPORT_SERVICE_PATH, soapBody, options.signal, toFaultError));
 
-  // 7. Parse the inner XML Data
-  const result = parseOracleXML(decodedXml);
+  // 4. Extract Base64 from SOAP Response
+  const base64Data = getElementText(doc, "reportBytes");
+  if (!base64Data) {
+    throw new EmptyOutputError("No 'reportBytes' found in response. The report might have failed to generate output or the user permissions are insufficient.");
+  }
+
+  // 5. Parse the inner XML Data (trims the look-ahead row and records paging state)
+  const result = parseReportOutput(base64Data, rowLimit, offset);
   
   result.executionTimeMs = Math.round(performance.now() - startTime);
+  if (attempts.length > 1) result.attempts = attempts;
   return result;
-};
\ No newline at end of file
+};
@@ -0,0 +1,332 @@
+import { BindValue, BindValueType } from '../types';
+
+/**
+ * Returns a copy of the SQL with string literals, quoted identifiers and comments
+ * blanked out (replaced by spaces, newlines kept). Offsets are identical to the
+ * input, so any match found in the masked text maps straight back to the source.
+ *
+ * Pass `literalFill` to fill literals with a visible character instead (newlines
+ * included), e.g. when blank lines inside strings must not look like blank lines.
+ */
+export const maskSqlLiterals = (sql: string, literalFill?: string): string => {
+  const out = sql.split('');
+  const blank = (from: number, to: number, fill?: string) => {
+    for (let k = from; k < to && k < out.length; k++) {
+      if (fill) out[k] = fill;
+      else if (out[k] !== '\n') out[k] = ' ';
+    }
+  };
+
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    // -- line comment
+    if (ch === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      const stop = end === -1 ? sql.length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // /* block comment */
+    if (ch === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // q'[alternative quoting]'
+    if ((ch === 'q' || ch === 'Q') && next === "'" && i + 2 < sql.length && !/[\w$#]/.test(sql[i - 1] || '')) {
+      const open = sql[i + 2];
+      const close = ({ '[': ']', '(': ')', '{': '}', '<': '>' } as Record<string, string>)[open] || open;
+      const end = sql.indexOf(`${close}'`, i + 3);
+      const stop = end === -1 ? sql.length : end + 2;
+      blank(i, stop, literalFill);
+      i = stop;
+      continue;
+    }
+
+    // 'string literal' ('' escapes a quote) and "quoted identifier"
+    if (ch === "'" || ch === '"') {
+      let j = i + 1;
+      while (j < sql.length) {
+        if (sql[j] === ch) {
+          if (ch === "'" && sql[j + 1] === "'") { j += 2; continue; }
+          break;
+        }
+        j++;
+      }
+      const stop = Math.min(j + 1, sql.length);
+      blank(i, stop, literalFill);
+      i = stop;
+      continue;
+    }
+
+    i++;
+  }
+
+  return out.join('');
+};
+
+// --- Bind Variables ---
+
+interface BindMatch {
+  name: string; // Upper-cased, Oracle bind names are case-insensitive
+  start: number; // Offset of the ':'
+  end: number;
+}
+
+const scanBindVariables = (sql: string): BindMatch[] => {
+  const masked = maskSqlLiterals(sql);
+  const regex = /(^|[^:\w$#]):([A-Za-z][\w$#]*)/g;
+  const matches: BindMatch[] = [];
+  let match;
+  while ((match = regex.exec(masked)) !== null) {
+    const start = match.index + match[1].length;
+    matches.push({ name: match[2].toUpperCase(), start, end: start + 1 + match[2].length });
+  }
+  return matches;
+};
+
+/**
+ * Lists the distinct :NAME placeholders in the SQL, in order of first appearance.
+ * Placeholders inside strings and comments are ignored.
+ */
+export const findBindVariables = (sql: string): string[] => {
+  return Array.from(new Set(scanBindVariables(sql).map(m => m.name)));
+};
+
+/**
+ * Best guess of a bind type from its name, used when no previous value is known.
+ */
+export const guessBindType = (name: string): BindValueType => {
+  if (/DATE|_DT$/.test(name)) return 'date';
+  if (/(^|_)(ID|COUNT|AMOUNT|QTY)$/.test(name)) return 'number';
+  return 'string';
+};
+
+/**
+ * Renders a bind value as a safe Oracle literal. Throws on values that do not match the type.
+ */
+export const formatBindLiteral = (name: string, bind: BindValue): string => {
+  const value = bind.value.trim();
+  if (value === '') return 'NULL';
+
+  switch (bind.type) {
+    case 'number':
+      if (!/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value)) {
+        throw new Error(`Bind variable :${name} expects a number, got "${bind.value}".`);
+      }
+      // Parenthesized: 10-:N with N = -5 must not become the comment 10--5
+      return `(${value})`;
+    case 'date': {
+      const match = value.match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}(?::\d{2})?))?$/);
+      if (!match) {
+        throw new Error(`Bind variable :${name} expects a date as YYYY-MM-DD [HH24:MI:SS], got "${bind.value}".`);
+      }
+      if (!match[2]) return `TO_DATE('${match[1]}', 'YYYY-MM-DD')`;
+      const time = match[2].length === 5 ? `${match[2]}:00` : match[2];
+      return `TO_DATE('${match[1]} ${time}', 'YYYY-MM-DD HH24:MI:SS')`;
+    }
+    default:
+      return `'${bind.value.replace(/'/g, "''")}'`;
+  }
+};
+
+/**
+ * Replaces every :NAME placeholder with its typed literal.
+ * Throws if a placeholder has no value supplied.
+ */
+export const substituteBindVariables = (sql: string, values: Record<string, BindValue>): string => {
+  const matches = scanBindVariables(sql);
+  if (matches.length === 0) return sql;
+
+  let output = '';
+  let cursor = 0;
+  matches.forEach(m => {
+    const bind = values[m.name];
+    if (!bind) {
+      throw new Error(`No value supplied for bind variable :${m.name}.`);
+    }
+    output += sql.substring(cursor, m.start) + formatBindLiteral(m.name, bind);
+    cursor = m.end;
+  });
+  return output + sql.substring(cursor);
+};
+
+/**
+ * Maps an offset in the output of substituteBindVariables back to the original SQL.
+ * Offsets inside a substituted literal map to the start of its placeholder.
+ */
+export const mapSubstitutedOffset = (sql: string, values: Record<string, BindValue>, offset: number): number => {
+  let delta = 0;
+  for (const m of scanBindVariables(sql)) {
+    const bind = values[m.name];
+    if (!bind) break;
+    const literalLength = formatBindLiteral(m.name, bind).length;
+    const outputStart = m.start + delta;
+    if (offset < outputStart) break;
+    if (offset < outputStart + literalLength) return m.start;
+    delta += literalLength - (m.end - m.start);
+  }
+  return offset - delta;
+};
+
+// --- Statement Splitting ---
+
+export interface SqlStatement {
+  text: string; // Statement without its terminating semicolon, trimmed
+  start: number; // Offset of the first character of `text` in the source
+  end: number; // Offset just past the last character of `text`
+}
+
+/**
+ * Splits a script into statements on `;` (ignoring semicolons inside strings and comments).
+ * Fragments that contain only whitespace or comments are dropped.
+ */
+export const splitSqlStatements = (sql: string): SqlStatement[] => {
+  const masked = maskSqlLiterals(sql);
+  const statements: SqlStatement[] = [];
+
+  let segmentStart = 0;
+  for (let i = 0; i <= masked.length; i++) {
+    if (i < masked.length && masked[i] !== ';') continue;
+
+    // Only keep fragments with actual code once comments are blanked out
+    const code = masked.substring(segmentStart, i);
+    if (code.trim().length > 0) {
+      const leading = code.length - code.trimStart().length;
+      const trailing = code.length - code.trimEnd().length;
+      const start = segmentStart + leading;
+      const end = i - trailing;
+      statements.push({ text: sql.substring(start, end), start, end });
+    }
+    segmentStart = i + 1;
+  }
+
+  return statements;
+};
+
+/**
+ * Finds the statement surrounding the caret, where statements are delimited by
+ * semicolons or blank lines. A caret sitting just after a statement on the same
+ * line (e.g. right after its `;`) selects that statement.
+ */
+export const findStatementAtOffset = (sql: string, offset: number): SqlStatement | null => {
+  const masked = maskSqlLiterals(sql, '_');
+  const boundaries: { start: number; end: number }[] = [];
+
+  const regex = /;|\n[ \t\r]*\n/g;
+  let match;
+  while ((match = regex.exec(masked)) !== null) {
+    boundaries.push({ start: match.index, end: match.index + match[0].length });
+  }
+
+  // Raw segments between boundaries, trimmed down to the code they contain
+  const segments: { rawStart: number; rawEnd: number; statement: SqlStatement | null }[] = [];
+  let segmentStart = 0;
+  [...boundaries, { start: masked.length, end: masked.length }].forEach(b => {
+    const code = masked.substring(segmentStart, b.start);
+    let statement: SqlStatement | null = null;
+    if (code.trim().length > 0) {
+      const start = segmentStart + (code.length - code.trimStart().length);
+      const end = b.start - (code.length - code.trimEnd().length);
+      statement = { text: sql.substring(start, end), start, end };
+    }
+    segments.push({ rawStart: segmentStart, rawEnd: b.start, statement });
+    segmentStart = b.end;
+  });
+
+  const statements = segments.map(s => s.statement).filter((s): s is SqlStatement => s !== null);
+
+  const containing = statements.find(s => offset >= s.start && offset <= s.end);
+  if (containing) return containing;
+
+  const previous = statements.filter(s => s.end <= offset).pop() || null;
+  if (previous && !masked.substring(previous.end, offset).includes('\n')) return previous;
+
+  const segment = segments.find(s => offset >= s.rawStart && offset <= s.rawEnd);
+  return segment?.statement || previous;
+};
+
+/**
+ * Replaces every occurrence of one :NAME placeholder with raw SQL text, leaving other binds untouched.
+ */
+export const replaceBindVariable = (sql: string, name: string, replacement: string): string => {
+  const target = name.toUpperCase();
+  const matches = scanBindVariables(sql).filter(m => m.name === target);
+
+  let output = '';
+  let cursor = 0;
+  matches.forEach(m => {
+    output += sql.substring(cursor, m.start) + replacement;
+    cursor = m.end;
+  });
+  return output + sql.substring(cursor);
+};
+
+// --- IN Lists ---
+
+export interface InList {
+  start: number; // Offset just inside the opening parenthesis
+  end: number; // Offset of the closing parenthesis
+  items: string[]; // Literal items, trimmed
+  negated: boolean; // NOT IN
+}
+
+/**
+ * Finds literal `IN (a, b, c)` lists (subqueries are skipped) with their item ranges.
+ */
+export const findInLists = (sql: string): InList[] => {
+  const masked = maskSqlLiterals(sql);
+  const regex = /\b(NOT\s+)?IN\s*\(/gi;
+  const lists: InList[] = [];
+  let match;
+
+  while ((match = regex.exec(masked)) !== null) {
+    const start = match.index + match[0].length;
+    let depth = 1;
+    let cursor = start;
+    const commas: number[] = [];
+
+    for (; cursor < masked.length && depth > 0; cursor++) {
+      const ch = masked[cursor];
+      if (ch === '(') depth++;
+      else if (ch === ')') depth--;
+      else if (ch === ',' && depth === 1) commas.push(cursor);
+    }
+    if (depth !== 0) continue; // Unbalanced: leave it to Oracle to report
+    const end = cursor - 1;
+
+    if (/^\s*(SELECT|WITH)\b/i.test(masked.substring(start, end))) continue;
+
+    const bounds = [start - 1, ...commas, end];
+    const items = bounds.slice(0, -1).map((b, i) => sql.substring(b + 1, bounds[i + 1]).trim());
+    lists.push({ start, end, items, negated: !!match[1] });
+  }
+
+  return lists;
+};
+
+// --- Ordering ---
+
+/**
+ * True when the statement itself ends with an ORDER BY (ORDER BY inside subqueries or OVER clauses
+ * does not order the returned rows). Without one, Oracle may return rows in a different order on each run.
+ */
+export const hasTopLevelOrderBy = (sql: string): boolean => {
+  const masked = maskSqlLiterals(sql);
+  let depth = 0;
+  let topLevel = '';
+  for (const ch of masked) {
+    if (ch === '(') depth++;
+    else if (ch === ')') depth = Math.max(0, depth - 1);
+    topLevel += depth === 0 && ch !== ')' ? ch : ' ';
+  }
+  return /\bORDER\s+(SIBLINGS\s+)?BY\b/i.test(topLevel);
+};
@@ -0,0 +1,125 @@
+import { ConnectionConfig } from '../types';
+
+// Connection fields that never reach the database (or its exports) in clear text
+export const SECRET_FIELDS = ['password', 'accessToken', 'clientSecret', 'jwtPrivateKey'] as const;
+
+// Prefix of stored ciphertexts: enc:v1:<iv>:<AES-GCM ciphertext>, both Base64
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'duckoracle-vault';
+
+const AUTO_LOCK_KEY = 'duckoracle_auto_lock_minutes';
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export interface VaultMeta {
+  salt: string; // Base64 PBKDF2 salt
+  iterations: number;
+  verifier: string; // VERIFIER_TEXT encrypted with the key, to check the passphrase
+}
+
+// Derived key of the unlocked vault (never persisted)
+let vaultKey: CryptoKey | null = null;
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, b => String.fromCodePoint(b)).join(''));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptWith = async (key: CryptoKey, text: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(cipher))}`;
+};
+
+const decryptWith = async (key: CryptoKey, value: string): Promise<string> => {
+  const [iv, cipher] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(cipher));
+  return new TextDecoder().decode(plain);
+};
+
+export const isEncrypted = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+
+export const isVaultUnlocked = () => vaultKey !== null;
+
+/**
+ * Sets up a vault for a new passphrase and unlocks it. The returned meta is stored in the database;
+ * secrets written afterwards use the new key.
+ */
+export const createVault = async (passphrase: string): Promise<VaultMeta> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  vaultKey = key;
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, verifier: await encryptWith(key, VERIFIER_TEXT) };
+};
+
+/**
+ * Derives the key from the passphrase and unlocks the vault. Returns false for a wrong passphrase.
+ */
+export const unlockVault = async (passphrase: string, meta: VaultMeta): Promise<boolean> => {
+  const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  try {
+    if (await decryptWith(key, meta.verifier) !== VERIFIER_TEXT) return false;
+  } catch {
+    return false; // AES-GCM authentication fails with the wrong key
+  }
+  vaultKey = key;
+  return true;
+};
+
+export const lockVault = () => {
+  vaultKey = null;
+};
+
+/**
+ * Encrypts the secret fields of a connection for storage. Fails while the vault is locked.
+ */
+export const sealSecrets = async (conn: ConnectionConfig): Promise<ConnectionConfig> => {
+  const sealed = { ...conn };
+  for (const field of SECRET_FIELDS) {
+    const value = conn[field];
+    if (!value || isEncrypted(value)) continue;
+    if (!vaultKey) throw new Error('The vault is locked: unlock it with the master passphrase before saving connections.');
+    sealed[field] = await encryptWith(vaultKey, value);
+  }
+  return sealed;
+};
+
+/**
+ * Decrypts the secret fields of a stored connection. While locked (or with a stale key) they come back empty.
+ */
+export const openSecrets = async (conn: ConnectionConfig): Promise<ConnectionConfig> => {
+  const opened = { ...conn };
+  for (const field of SECRET_FIELDS) {
+    const value = conn[field];
+    if (!isEncrypted(value)) continue;
+    try {
+      opened[field] = vaultKey ? await decryptWith(vaultKey, value) : '';
+    } catch {
+      opened[field] = '';
+    }
+  }
+  return opened;
+};
+
+/**
+ * Minutes of inactivity before the vault locks itself (0 = never).
+ */
+export const loadAutoLockMinutes = (): number => {
+  const stored = parseInt(localStorage.getItem(AUTO_LOCK_KEY) || '', 10);
+  return Number.isNaN(stored) ? DEFAULT_AUTO_LOCK_MINUTES : Math.max(0, stored);
+};
+
+export const saveAutoLockMinutes = (minutes: number) => {
+  localStorage.setItem(AUTO_LOCK_KEY, String(Math.max(0, minutes)));
+};
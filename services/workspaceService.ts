@@ -0,0 +1,82 @@
+import { SqlTab, TabView, Workspace } from '../types';
+import { getWorkspace, getWorkspaceSummaries, saveWorkspace } from './dbService';
+
+const ACTIVE_WORKSPACE_KEY = 'duckoracle_active_workspace';
+// Before workspaces, only the first tab's query was kept (as a "draft")
+const LEGACY_DRAFT_KEY = 'duckoracle_draft';
+
+export const DEFAULT_EDITOR_HEIGHT = 350;
+
+const generateId = () => Math.random().toString(36).substring(2) + Date.now().toString(36);
+
+export const createTab = (name: string, query = ''): SqlTab => ({
+  id: generateId(),
+  name,
+  query,
+  rowLimit: 100,
+  result: null,
+  error: null,
+  isLoading: false,
+  view: TabView.TABLE,
+});
+
+export const createWorkspace = (name: string, tabs: SqlTab[] = [createTab('Query 1')]): Workspace => ({
+  id: generateId(),
+  name,
+  tabs,
+  activeTabId: tabs[0].id,
+  editorHeight: DEFAULT_EDITOR_HEIGHT,
+  keepResults: false,
+  updatedAt: Date.now(),
+});
+
+/**
+ * Tabs as stored: in-flight state is dropped (a reload cannot resume a request) and results
+ * are kept only when asked, without their raw XML.
+ */
+export const toStoredTabs = (tabs: SqlTab[], keepResults: boolean): SqlTab[] =>
+  tabs.map(tab => ({
+    ...tab,
+    isLoading: false,
+    isLoadingMore: false,
+    loadMoreError: undefined,
+    status: tab.status === 'running' ? 'idle' : tab.status,
+    batchProgress: undefined,
+    result: keepResults && tab.result ? { ...tab.result, rawXml: undefined } : null,
+    scriptResults: keepResults
+      ? tab.scriptResults?.map(r => ({ ...r, status: r.status === 'running' ? 'pending' : r.status, result: r.result && { ...r.result, rawXml: undefined } }))
+      : undefined,
+    snapshot: keepResults ? tab.snapshot : undefined,
+    comparison: keepResults ? tab.comparison : undefined,
+    view: keepResults && tab.view === TabView.RAW_XML ? TabView.TABLE : tab.view, // Raw XML is not stored
+  }));
+
+export const loadActiveWorkspaceId = () => localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+
+export const saveActiveWorkspaceId = (id: string) => {
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+};
+
+/**
+ * The workspace to restore on startup: the last active one, else the first one, else a new
+ * "Default" workspace seeded with the legacy draft query.
+ */
+export const loadStartupWorkspace = async (): Promise<Workspace> => {
+  // 1. Last active workspace
+  const activeId = loadActiveWorkspaceId();
+  const active = activeId ? await getWorkspace(activeId) : null;
+  if (active && active.tabs.length > 0) return active;
+
+  // 2. Any other workspace
+  const summaries = await getWorkspaceSummaries();
+  for (const summary of summaries) {
+    const workspace = await getWorkspace(summary.id);
+    if (workspace && workspace.tabs.length > 0) return workspace;
+  }
+
+  // 3. First start (or upgrade from the single draft)
+  const workspace = createWorkspace('Default', [createTab('Query 1', localStorage.getItem(LEGACY_DRAFT_KEY) || '')]);
+  await saveWorkspace(workspace);
+  localStorage.removeItem(LEGACY_DRAFT_KEY);
+  return workspace;
+};
@@ -1,3 +1,14 @@
+export type SqlEncoding = 'base64' | 'gzip-base64';
+
+// 'bip' runs physical SQL through the BIP data model, 'otbi' runs logical SQL against subject areas
+export type ConnectionType = 'bip' | 'otbi';
+
+// 'body' sends userID/password inside the envelope; 'basic' and 'bearer' use the HTTP Authorization header
+export type AuthMode = 'body' | 'basic' | 'bearer';
+
+// Where a bearer token comes from: pasted, or requested from the OAuth token URL
+export type TokenSource = 'static' | 'client_credentials' | 'jwt';
+
 export interface ConnectionConfig {
   id: string; // Unique ID for persistence
   name: string; // Display name (e.g., "Prod HCM", "Test ERP")
@@ -6,6 +17,42 @@ export interface ConnectionConfig {
   password: string;
   soapTemplate: string; 
   corsProxy?: string; 
+  timeoutSeconds?: number; // Abort the request after this many seconds (0/empty = no limit)
+  sqlEncoding?: SqlEncoding; // gzip-base64 requires the compressed data model
+  connectionType?: ConnectionType; // Defaults to 'bip'
+  reportPath?: string; // SQL runner report (e.g. installed from Settings); defaults to DEFAULT_REPORT_PATH
+  attributeFormat?: string; // runReport output format, defaults to xml
+  locale?: string; // attributeLocale, e.g. en-US (empty = user default)
+  timezone?: string; // attributeTimezone, e.g. UTC (empty = user default)
+  maxRetries?: number; // Retries of transient failures (502/503, dropped connections); defaults to DEFAULT_MAX_RETRIES
+  retryBaseDelayMs?: number; // First backoff delay, doubled per retry (with jitter)
+  authMode?: AuthMode; // Defaults to 'body'
+  tokenSource?: TokenSource; // Bearer only, defaults to 'static'
+  accessToken?: string; // Pasted bearer token (static source)
+  tokenUrl?: string; // OAuth token endpoint, e.g. https://idcs-xxxx.identity.oraclecloud.com/oauth2/v1/token
+  clientId?: string;
+  clientSecret?: string;
+  tokenScope?: string; // e.g. urn:opc:resource:fusion:xxxx:bi/
+  jwtPrivateKey?: string; // PKCS#8 PEM key signing the JWT user assertion (sub = username)
+  jwtKeyId?: string; // "kid" of the assertion: alias of the certificate uploaded to the OAuth app
+}
+
+export type ColumnType = 'number' | 'date' | 'timestamp' | 'boolean' | 'text';
+
+export interface ColumnMeta {
+  name: string;
+  type: ColumnType; // Inferred from the values returned by Oracle
+}
+
+export interface DisplayFormat {
+  dateFormat: 'iso' | 'locale' | 'raw';
+  numberFormat: 'raw' | 'grouped';
+}
+
+export interface QueryPaging {
+  offset: number; // Row offset of the first page fetched for this result
+  pageSize: number;
+  hasMore: boolean; // True when Oracle returned more rows than the page size
 }
 
 export interface QueryResult {
@@ -13,13 +60,43 @@ export interface QueryResult {
   rows: Record<string, string>[];
   rawXml?: string;
   executionTimeMs: number;
+  columnMeta?: ColumnMeta[];
+  paging?: QueryPaging;
+  warnings?: string[]; // Non-fatal problems (e.g. failed batches) shown above the grid
+  attempts?: QueryAttempt[]; // Set when transient failures were retried
+}
+
+export interface QueryAttempt {
+  attempt: number; // 1-based
+  startedAt: number;
+  durationMs: number;
+  error?: string; // Failure message (absent for the successful attempt)
+  errorKind?: string; // ServiceError kind, e.g. http or network
+  retryDelayMs?: number; // Backoff waited before the next attempt
 }
 
 export interface HistoryItem {
   id: string;
+  connectionId: string;
   query: string;
   timestamp: number;
-  status: 'success' | 'error';
+  status: 'success' | 'error' | 'cancelled' | 'timeout';
+  rowCount?: number; // Rows returned (successful runs)
+  durationMs: number;
+  error?: string;
+}
+
+export interface HistoryFilter {
+  search?: string; // Words that must all appear in the SQL or the error
+  connectionId?: string;
+  status?: HistoryItem['status'];
+  from?: number; // Executed at or after (ms)
+  to?: number; // Executed before (ms)
+}
+
+export interface HistoryRetention {
+  maxEntries: number; // 0 = unlimited
+  maxAgeDays: number; // 0 = keep forever
 }
 
 export enum TabView {
@@ -27,6 +104,37 @@ export enum TabView {
   RAW_XML = 'RAW_XML',
 }
 
+export type BindValueType = 'string' | 'number' | 'date';
+
+export interface BindValue {
+  type: BindValueType;
+  value: string;
+}
+
+export type QueryRunStatus = 'idle' | 'running' | 'success' | 'error' | 'cancelled' | 'timeout';
+
+export interface BatchProgress {
+  completed: number;
+  total: number;
+  errors: { batch: number; message: string }[];
+}
+
+export interface OracleErrorDetail {
+  code: string; // e.g. ORA-00942
+  message: string; // Oracle message text following the code
+  offset?: number; // Error position in the editor text, when Oracle reported one
+}
+
+export interface ScriptStatementResult {
+  sql: string;
+  start: number; // Offset of the statement in the tab's query text
+  status: 'pending' | QueryRunStatus | 'skipped';
+  result: QueryResult | null;
+  error: string | null;
+  errorDetail?: OracleErrorDetail | null;
+  executionTimeMs: number;
+}
+
 export interface SqlTab {
   id: string;
   name: string;
@@ -34,8 +142,157 @@ export interface SqlTab {
   rowLimit: number;
   result: QueryResult | null;
   error: string | null;
+  errorDetail?: OracleErrorDetail | null; // Structured ORA error of the last run
+  errorAttempts?: QueryAttempt[]; // Attempt log of a failed run that was retried
+  snapshot?: ResultSnapshot; // Set when the result was reopened from a snapshot (no Oracle round trip)
+  comparison?: SnapshotComparison; // Fresh run compared against a snapshot
+  engine?: 'oracle' | 'sqlite'; // 'sqlite' runs the SQL locally over loaded result tables
   isLoading: boolean;
+  isLoadingMore?: boolean;
+  loadMoreError?: string; // Last "Load next page" failure, shown below the rows already loaded
+  status?: QueryRunStatus;
   view: TabView;
+  executedQuery?: string; // SQL actually sent by the last run (selection, statement or whole editor)
+  savedQueryId?: string; // Library entry this tab was opened from
+  bindValues?: Record<string, BindValue>; // Last values used for :NAME placeholders
+  scriptResults?: ScriptStatementResult[]; // Set when the tab was run in script mode
+  activeScriptIndex?: number;
+  stopScriptOnError?: boolean;
+  batchProgress?: BatchProgress; // Set while/after a batch list run
+}
+
+export interface Workspace {
+  id: string;
+  name: string; // e.g. "Payroll audit"
+  tabs: SqlTab[]; // Stored without in-flight state; results only with keepResults
+  activeTabId: string;
+  editorHeight: number;
+  keepResults: boolean; // Also restore the last result of each tab
+  updatedAt: number;
+}
+
+export type WorkspaceSummary = Pick<Workspace, 'id' | 'name' | 'updatedAt'>;
+
+export type ExtractionStatus = 'running' | 'paused' | 'completed' | 'failed';
+
+export interface ExtractionJob {
+  id: string;
+  name: string;
+  connectionId: string;
+  query: string;
+  bindValues?: Record<string, BindValue>;
+  pageSize: number;
+  status: ExtractionStatus;
+  rowsFetched: number;
+  nextOffset: number; // Offset of the next page to request (resume point)
+  columns: string[];
+  exportFormat: 'csv' | 'xlsx' | 'none'; // Downloaded automatically on completion
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ScheduledRunStatus = 'submitted' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ScheduledRun {
+  id: string;
+  connectionId: string;
+  jobId: string; // BI Publisher scheduled job id
+  name: string;
+  query: string;
+  bindValues?: Record<string, BindValue>;
+  rowLimit: number;
+  status: ScheduledRunStatus;
+  serverStatus?: string; // Raw jobStatus reported by ScheduleService
+  error?: string;
+  rowCount?: number;
+  submittedAt: number;
+  completedAt?: number;
+}
+
+export interface SchemaObject {
+  owner: string;
+  name: string;
+  type: string; // ALL_OBJECTS.OBJECT_TYPE (TABLE or VIEW)
+}
+
+export interface SchemaColumn {
+  name: string;
+  dataType: string; // Display form, e.g. VARCHAR2(240) or NUMBER(18,2)
+  nullable: boolean;
+  position: number;
+}
+
+export interface SchemaCacheInfo {
+  objectCount: number;
+  fetchedAt: number | null;
+  owner: string; // Owner filter used for the last refresh ('' = all owners)
+}
+
+export interface CatalogItem {
+  absolutePath: string;
+  displayName: string;
+  type: string; // CatalogService item type: Folder, Report, DataModel, ...
+  owner?: string;
+  lastModified?: string;
+}
+
+export interface ReportParameter {
+  name: string;
+  label: string;
+  dataType: string; // String, Integer, Float, Date, Boolean
+  dateFormat?: string;
+  defaultValues: string[];
+  options: { label: string; value: string }[]; // List of values (empty for free-text parameters)
+  multiValuesAllowed: boolean;
+}
+
+// What a failed connection test points at (see diagnosticsService)
+export type ProbeFailure = 'dns' | 'cors' | 'timeout' | 'http' | 'auth' | 'soap_fault' | 'report' | 'no_report_bytes' | 'oracle' | 'unknown';
+
+export interface ConnectionStatus {
+  connectionId: string;
+  checkedAt: number;
+  ok: boolean;
+  failure?: ProbeFailure;
+  message: string; // Summary, or the raw error of a failed test
+  latencyMs?: number; // Round trip of the probe query
+  httpStatus?: number;
+  serverInfo?: Record<string, string>; // Pod, database and release details when the probe could read them
+}
+
+export interface ResultSnapshot {
+  id: string;
+  name: string;
+  connectionId: string;
+  query: string;
+  savedQueryId?: string; // Library entry the tab was opened from
+  bindValues?: Record<string, BindValue>;
+  createdAt: number;
+  rowCount: number;
+  isTruncated?: boolean; // More rows existed when it was pinned: only the first rowCount rows are stored
+}
+
+export interface ChangedRow {
+  key: string; // Key column values, joined for display
+  before: Record<string, string>;
+  after: Record<string, string>;
+  columns: string[]; // Columns whose value differs
+}
+
+export interface SnapshotDiff {
+  keyColumns: string[]; // Empty: rows matched on all their values
+  added: Record<string, string>[]; // Only in the fresh run
+  removed: Record<string, string>[]; // Only in the snapshot
+  changed: ChangedRow[];
+  unchangedCount: number;
+  columnsAdded: string[];
+  columnsRemoved: string[];
+}
+
+export interface SnapshotComparison {
+  snapshot: ResultSnapshot;
+  diff: SnapshotDiff;
 }
 
 export interface SavedQuery {
@@ -43,6 +300,7 @@ export interface SavedQuery {
   name: string;
   query: string;
   description?: string;
+  bindValues?: Record<string, BindValue>; // Remembered values for :NAME placeholders
 }
 
 // Global declaration for Google Identity Services